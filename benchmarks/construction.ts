@@ -0,0 +1,55 @@
+/**
+ * Construction Benchmark
+ *
+ * Measures the time to build rings of large clusters by adding nodes one
+ * at a time, with addAll(), and by restoring them with fromJSON(). Each
+ * add() re-sorts every ring position, while addAll() and fromJSON() batch
+ * the changes and sort once.
+ *
+ * Run: npx tsx benchmarks/construction.ts
+ */
+
+import { HashOrbit, type HashOrbitOptions } from '../src/index.js';
+
+const CLUSTER_SIZES = [100, 250, 500];
+
+const layouts: Array<[string, HashOrbitOptions]> = [
+  ['150 virtual nodes', {}],
+  ['ketama', { profile: 'ketama' }],
+];
+
+function time(build: () => HashOrbit): string {
+  const start = performance.now();
+  build();
+  return `${(performance.now() - start).toFixed(1)}ms`;
+}
+
+for (const [name, options] of layouts) {
+  console.log(`\nConstruction time (${name})\n`);
+  console.log(
+    ['nodes', 'add()', 'addAll()', 'fromJSON()'].map((cell) => cell.padStart(14)).join('')
+  );
+
+  for (const size of CLUSTER_SIZES) {
+    const nodes = Array.from({ length: size }, (_, i) => `node-${i}`);
+    const json = new HashOrbit(options);
+    json.addAll(nodes);
+    const serialized = json.toJSON();
+
+    const row = [
+      String(size),
+      time(() => {
+        const ring = new HashOrbit(options);
+        for (const node of nodes) ring.add(node);
+        return ring;
+      }),
+      time(() => {
+        const ring = new HashOrbit(options);
+        ring.addAll(nodes);
+        return ring;
+      }),
+      time(() => HashOrbit.fromJSON(serialized)),
+    ];
+    console.log(row.map((cell) => cell.padStart(14)).join(''));
+  }
+}
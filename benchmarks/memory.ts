@@ -0,0 +1,85 @@
+/**
+ * Memory Benchmark
+ *
+ * Compares the ring's typed-array representation (sorted Uint32Array
+ * positions with owner indices into a node table) against the previous
+ * layout of a Map from position to node plus a sorted number[], at 100k to
+ * 1M virtual nodes. Reports retained memory and lookup cost.
+ *
+ * Run: npx tsx --expose-gc benchmarks/memory.ts
+ */
+
+import { HashOrbit, murmur3 } from '../src/index.js';
+
+const REPLICAS = 150;
+const VIRTUAL_NODES = [100_000, 500_000, 1_000_000];
+const LOOKUPS = 200_000;
+
+// Node globals, typed locally because the library does not depend on @types/node
+const runtime = globalThis as unknown as {
+  gc?: () => void;
+  process: { memoryUsage(): { heapUsed: number; arrayBuffers: number } };
+};
+
+// The previous representation: position → node, plus sorted positions
+class MapRing {
+  private readonly ring = new Map<number, string>();
+  private sortedKeys: number[] = [];
+
+  constructor(nodes: string[]) {
+    for (const node of nodes) {
+      for (let i = 0; i < REPLICAS; i++) this.ring.set(murmur3(`${node}:${i}`), node);
+    }
+    this.sortedKeys = [...this.ring.keys()].sort((a, b) => a - b);
+  }
+
+  get(key: string): string {
+    const target = murmur3(key);
+    let left = 0;
+    let right = this.sortedKeys.length;
+    while (left < right) {
+      const mid = Math.floor((left + right) / 2);
+      if (this.sortedKeys[mid]! < target) left = mid + 1;
+      else right = mid;
+    }
+    return this.ring.get(this.sortedKeys[left >= this.sortedKeys.length ? 0 : left]!)!;
+  }
+}
+
+function usedMemory(): number {
+  runtime.gc?.();
+  const { heapUsed, arrayBuffers } = runtime.process.memoryUsage();
+  return heapUsed + arrayBuffers;
+}
+
+function measure(build: () => { get(key: string): unknown }): { mb: string; us: string } {
+  const before = usedMemory();
+  const ring = build();
+  const mb = ((usedMemory() - before) / 1024 / 1024).toFixed(1);
+
+  const start = performance.now();
+  for (let i = 0; i < LOOKUPS; i++) ring.get(`key:${i}`);
+  const us = (((performance.now() - start) * 1000) / LOOKUPS).toFixed(2);
+  return { mb, us };
+}
+
+if (!runtime.gc) console.log('Run with --expose-gc for stable memory figures\n');
+console.log(`Retained memory and lookup cost (${REPLICAS} virtual nodes per node)\n`);
+console.log(
+  ['virtual nodes', 'Map MB', 'typed MB', 'Map µs/get', 'typed µs/get']
+    .map((cell) => cell.padStart(15))
+    .join('')
+);
+
+for (const total of VIRTUAL_NODES) {
+  const nodes = Array.from({ length: total / REPLICAS }, (_, i) => `node-${i}`);
+  const map = measure(() => new MapRing(nodes));
+  const typed = measure(() => {
+    const ring = new HashOrbit({ replicas: REPLICAS });
+    ring.addAll(nodes);
+    return ring;
+  });
+  console.log(
+    [String(total), map.mb, typed.mb, map.us, typed.us].map((cell) => cell.padStart(15)).join('')
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Multi-Probe Benchmark
+ *
+ * Compares the balance of multi-probe consistent hashing (one position per
+ * node, K probes per key) against the default layout of 150 virtual nodes.
+ * Balance is reported as peak-to-mean load: the busiest node's key count
+ * divided by the average, averaged over several cluster layouts.
+ *
+ * Run: npx tsx benchmarks/multi-probe.ts
+ */
+
+import { HashOrbit, type HashOrbitOptions } from '../src/index.js';
+
+const KEYS = 100_000;
+const TRIALS = 10;
+const CLUSTER_SIZES = [5, 10, 50, 100];
+
+const layouts: Array<[string, HashOrbitOptions]> = [
+  ['150 virtual nodes', {}],
+  ['1 position, 1 probe', { probes: 1 }],
+  ['1 position, 21 probes', { probes: 21 }],
+];
+
+function peakToMean(ring: HashOrbit): number {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < KEYS; i++) {
+    const node = ring.get(`key:${i}`)!;
+    counts.set(node, (counts.get(node) || 0) + 1);
+  }
+  return Math.max(...counts.values()) / (KEYS / ring.size);
+}
+
+console.log(`Peak-to-mean load (${KEYS} keys, mean of ${TRIALS} clusters)\n`);
+console.log(['nodes', ...layouts.map(([name]) => name)].map((cell) => cell.padStart(22)).join(''));
+
+for (const size of CLUSTER_SIZES) {
+  const row = [String(size)];
+  for (const [, options] of layouts) {
+    let total = 0;
+    for (let trial = 0; trial < TRIALS; trial++) {
+      const ring = new HashOrbit(options);
+      for (let i = 0; i < size; i++) ring.add(`cluster-${trial}-node-${i}`);
+      total += peakToMean(ring);
+    }
+    row.push((total / TRIALS).toFixed(3));
+  }
+  console.log(row.map((cell) => cell.padStart(22)).join(''));
+}
+
+console.log('\nLookup cost (10 nodes)\n');
+for (const [name, options] of layouts) {
+  const ring = new HashOrbit(options);
+  for (let i = 0; i < 10; i++) ring.add(`node-${i}`);
+
+  const start = performance.now();
+  for (let i = 0; i < KEYS; i++) ring.get(`key:${i}`);
+  const perLookup = ((performance.now() - start) * 1000) / KEYS;
+  console.log(`${name.padEnd(24)}${perLookup.toFixed(2)}µs/get  ${ring}`);
+}
@@ -5,7 +5,15 @@ import prettierConfig from 'eslint-config-prettier';
 export default tseslint.config(
   // Ignore patterns
   {
-    ignores: ['dist/', 'node_modules/', 'coverage/', '*.config.ts', '*.config.js'],
+    ignores: [
+      'dist/',
+      'node_modules/',
+      'coverage/',
+      '*.config.ts',
+      '*.config.js',
+      // Reference vector generators run against other libraries
+      'test/fixtures/compat/',
+    ],
   },
 
   // Base JavaScript rules
@@ -45,6 +53,14 @@ export default tseslint.config(
     },
   },
 
+  // Benchmark file specific rules
+  {
+    files: ['benchmarks/**/*.ts'],
+    rules: {
+      'no-console': 'off', // Benchmarks report their results on the console
+    },
+  },
+
   // Example file specific rules
   {
     files: ['examples/**/*.ts'],
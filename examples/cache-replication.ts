@@ -1,13 +1,20 @@
 /**
  * Cache Replication Example
  *
- * Demonstrates using getN() for multi-node data replication across
- * cache servers for high availability.
+ * Demonstrates Dynamo-style replication across cache servers for high
+ * availability. Replicas come from rendezvous hashing by default, whose
+ * getN() returns a stable preference order: the first N nodes are a key's
+ * replicas, and while one is down the next healthy node in the order stands
+ * in for it, holding its writes with a hint naming it. Writes succeed once
+ * a quorum of replicas accepts them (a sloppy quorum), and hinted writes
+ * are handed back to the original node when it recovers. With a HashOrbit
+ * ring, nodes are marked down on the ring and getPreferenceList() returns
+ * the stand-ins and hints directly.
  *
  * Run: npx tsx examples/cache-replication.ts
  */
 
-import { HashOrbit } from '../src/index.js';
+import { HashOrbit, RendezvousHash, type HashStrategy } from '../src/index.js';
 
 // Mock cache node for demonstration
 interface CacheNode {
@@ -52,16 +59,25 @@ class MockCacheNode implements CacheNode {
   }
 }
 
-// Replicated cache manager using consistent hashing
+// Replicated cache manager using sloppy quorums and hinted handoff
 class ReplicatedCache {
-  private ring: HashOrbit;
+  private ring: HashStrategy;
   private nodes: Map<string, CacheNode>;
   private replicationFactor: number;
+  private writeQuorum: number;
+  // Writes held by a stand-in, per down node they belong to
+  private hints: Map<string, { holder: string; key: string }[]>;
 
-  constructor(replicationFactor: number = 2, replicas: number = 150) {
-    this.ring = new HashOrbit({ replicas });
+  constructor(
+    replicationFactor: number = 3,
+    ring: HashStrategy = new RendezvousHash(),
+    writeQuorum: number = 2
+  ) {
+    this.ring = ring;
     this.nodes = new Map();
     this.replicationFactor = replicationFactor;
+    this.writeQuorum = writeQuorum;
+    this.hints = new Map();
   }
 
   /**
@@ -79,32 +95,75 @@ class ReplicatedCache {
   removeNode(nodeId: string): void {
     this.ring.remove(nodeId);
     this.nodes.delete(nodeId);
+    this.hints.delete(nodeId);
     console.log(`❌ Removed cache node: ${nodeId}`);
   }
 
   /**
    * Mark a node as unavailable (simulating failure)
+   * The node stays on the ring; stand-ins take its writes until it recovers.
    */
   markNodeUnavailable(nodeId: string): void {
     const node = this.nodes.get(nodeId);
     if (node) {
       node.available = false;
+      if (this.ring instanceof HashOrbit) this.ring.markDown(nodeId);
       console.log(`⚠️  Marked node as unavailable: ${nodeId}`);
     }
   }
 
   /**
-   * Get replica nodes for a key
+   * Mark a recovered node as available and hand its hinted writes back
    */
-  private getReplicaNodes(key: string): CacheNode[] {
-    const nodeIds = this.ring.getN(key, this.replicationFactor);
-    return nodeIds
-      .map((id) => this.nodes.get(id))
-      .filter((node): node is CacheNode => node !== undefined);
+  async markNodeAvailable(nodeId: string): Promise<void> {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+
+    node.available = true;
+    if (this.ring instanceof HashOrbit) this.ring.markUp(nodeId);
+    console.log(`💚 Marked node as available: ${nodeId}`);
+
+    for (const { holder, key } of this.hints.get(nodeId) ?? []) {
+      const standIn = this.nodes.get(holder);
+      const value = await standIn?.get(key);
+      if (value === null || value === undefined) continue;
+
+      await node.set(key, value);
+      await standIn!.del(key);
+      console.log(`    🤝 Handed "${key}" back from ${holder}`);
+    }
+    this.hints.delete(nodeId);
+  }
+
+  /**
+   * Get the preference list for a key: healthy replicas, with stand-ins
+   * for down replicas carrying the node they stand in for as a hint
+   */
+  private getReplicaNodes(key: string): { node: CacheNode; hint?: string }[] {
+    if (this.ring instanceof HashOrbit) {
+      return this.ring
+        .getPreferenceList(key, this.replicationFactor)
+        .map(({ node, hint }) => ({ node: this.nodes.get(node)!, hint }));
+    }
+
+    // Other strategies: stand-ins come from further down the preference order
+    const order = this.ring.getN(key, this.ring.size).map((id) => this.nodes.get(id)!);
+    const owners = order.slice(0, this.replicationFactor);
+    const missing = owners.filter((node) => !node.available).map((node) => node.id);
+    const replicas: { node: CacheNode; hint?: string }[] = owners
+      .filter((node) => node.available)
+      .map((node) => ({ node }));
+    for (const node of order.slice(this.replicationFactor)) {
+      if (missing.length === 0) break;
+      if (node.available) replicas.push({ node, hint: missing.shift() });
+    }
+    return replicas;
   }
 
   /**
    * Set a value with replication
+   * Succeeds once writeQuorum nodes of the preference list accept it, even
+   * if some are stand-ins (a sloppy quorum).
    */
   async set(key: string, value: string): Promise<void> {
     const replicas = this.getReplicaNodes(key);
@@ -115,16 +174,26 @@ class ReplicatedCache {
     console.log(`  📝 Writing "${key}" to ${replicas.length} replicas`);
 
     // Write to all replicas in parallel
-    const writes = replicas.map(async (node, index) => {
+    let acks = 0;
+    const writes = replicas.map(async ({ node, hint }, index) => {
       try {
         await node.set(key, value);
-        console.log(`    ✅ Replica ${index + 1}: ${node.id}`);
+        acks++;
+        if (hint) {
+          this.hints.set(hint, [...(this.hints.get(hint) ?? []), { holder: node.id, key }]);
+          console.log(`    ✅ Replica ${index + 1}: ${node.id} (hinted for ${hint})`);
+        } else {
+          console.log(`    ✅ Replica ${index + 1}: ${node.id}`);
+        }
       } catch (_error) {
         console.log(`    ❌ Replica ${index + 1}: ${node.id} (failed)`);
       }
     });
 
     await Promise.allSettled(writes);
+    if (acks < this.writeQuorum) {
+      throw new Error(`Write of "${key}" reached ${acks} of ${this.writeQuorum} required replicas`);
+    }
   }
 
   /**
@@ -140,7 +209,7 @@ class ReplicatedCache {
 
     // Try each replica in order until one succeeds
     for (let i = 0; i < replicas.length; i++) {
-      const node = replicas[i]!;
+      const { node } = replicas[i]!;
       try {
         const value = await node.get(key);
         const replicaLabel = i === 0 ? 'primary' : `backup ${i}`;
@@ -166,7 +235,7 @@ class ReplicatedCache {
 
     console.log(`  🗑️  Deleting "${key}" from ${replicas.length} replicas`);
 
-    const deletes = replicas.map(async (node) => {
+    const deletes = replicas.map(async ({ node }) => {
       try {
         await node.del(key);
         console.log(`    ✅ Deleted from ${node.id}`);
@@ -215,11 +284,11 @@ class ReplicatedCache {
 async function demo() {
   console.log('🚀 Cache Replication Demo\n');
 
-  // Create replicated cache with 2x replication
-  const cache = new ReplicatedCache(2); // 2 replicas per key
+  // Create a rendezvous-hashed cache with 3x replication and a write quorum of 2
+  const cache = new ReplicatedCache(3);
 
   // Add cache nodes
-  console.log('📦 Setting up cache cluster (2x replication)...');
+  console.log('📦 Setting up cache cluster (3x replication, W=2)...');
   cache.addNode('cache-1');
   cache.addNode('cache-2');
   cache.addNode('cache-3');
@@ -250,10 +319,12 @@ async function demo() {
   console.log(`  Value: ${rateLimits}`);
   console.log();
 
-  // Write more data (replication continues with remaining nodes)
+  // Write more data (stand-ins take cache-1's writes, with a hint)
   console.log('💾 Writing new data after node failure...');
   await cache.set('config:timeout', JSON.stringify({ connect: 5000, read: 30000 }));
   console.log();
+  await cache.set('config:retries', JSON.stringify({ max: 3, backoff: 200 }));
+  console.log();
 
   // Show node statistics
   console.log('📊 Node statistics:');
@@ -267,6 +338,11 @@ async function demo() {
   }
   console.log();
 
+  // Recovery hands hinted writes back to cache-1
+  console.log('💚 cache-1 recovered...');
+  await cache.markNodeAvailable('cache-1');
+  console.log();
+
   // Add new node for scaling
   console.log('⚡ Adding new cache node...');
   cache.addNode('cache-5');
@@ -291,14 +367,27 @@ async function demo() {
   }
   console.log();
 
+  // The same cache on a HashOrbit ring: health lives on the ring, and
+  // getPreferenceList() picks the stand-ins and hints
+  console.log('🌀 Same failover on a HashOrbit ring...');
+  const orbit = new ReplicatedCache(3, new HashOrbit());
+  ['cache-1', 'cache-2', 'cache-3', 'cache-4'].forEach((id) => orbit.addNode(id));
+  orbit.markNodeUnavailable('cache-1');
+  await orbit.set('config:timeout', JSON.stringify({ connect: 5000, read: 30000 }));
+  await orbit.markNodeAvailable('cache-1');
+  console.log();
+
   console.log('✅ Demo complete!');
   console.log();
   console.log('Key takeaways:');
   console.log('  • Each key is replicated to N nodes for high availability');
   console.log('  • Automatic failover to backup replicas when primary fails');
-  console.log('  • Writes go to all replicas in parallel');
+  console.log('  • Writes go to all replicas in parallel and need a quorum of acks');
+  console.log('  • Stand-ins accept writes for down replicas (sloppy quorum)');
+  console.log('  • Hinted writes are handed back when the node recovers');
   console.log('  • Reads try replicas in order until one succeeds');
   console.log('  • Adding nodes increases total capacity and availability');
+  console.log('  • Any strategy with a stable getN() order works; HashOrbit tracks health itself');
 }
 
 // Run the demo
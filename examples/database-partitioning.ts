@@ -3,11 +3,21 @@
  *
  * Demonstrates how to route database queries to the correct shard
  * based on user ID or partition key using consistent hashing.
+ * The routing strategy is pluggable: HashOrbit (a hash ring) handles
+ * arbitrary shard churn, while JumpHash suits numbered shards that are
+ * mostly added or removed at the end.
  *
  * Run: npx tsx examples/database-partitioning.ts
  */
 
-import { HashOrbit } from '../src/index.js';
+import {
+  HashOrbit,
+  JumpHash,
+  groupMoves,
+  planMigration,
+  rebalance,
+  type HashStrategy,
+} from '../src/index.js';
 
 // Mock database client for demonstration
 // In production, use actual database drivers (pg, mysql2, mongodb, etc.)
@@ -48,15 +58,40 @@ class MockDatabaseClient implements DatabaseClient {
   getRecordCount(table: string): number {
     return this.records.get(table)?.size || 0;
   }
+
+  /**
+   * Find all records stored under a partition key
+   */
+  findByPartitionKey(partitionKey: string): Array<[string, Record<string, unknown>]> {
+    const found: Array<[string, Record<string, unknown>]> = [];
+    for (const [table, tableData] of this.records) {
+      for (const record of tableData.values()) {
+        if (record.partitionKey === partitionKey) found.push([table, record]);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Delete all records stored under a partition key
+   */
+  deleteByPartitionKey(partitionKey: string): void {
+    for (const tableData of this.records.values()) {
+      for (const [id, record] of tableData) {
+        if (record.partitionKey === partitionKey) tableData.delete(id);
+      }
+    }
+  }
 }
 
 // Sharded database manager using consistent hashing
 class ShardedDatabase {
-  private ring: HashOrbit;
+  private ring: HashStrategy;
   private shards: Map<string, DatabaseClient>;
+  private partitionKeys = new Set<string>();
 
-  constructor(replicas: number = 150) {
-    this.ring = new HashOrbit({ replicas });
+  constructor(ring: HashStrategy = new HashOrbit({ replicas: 150 })) {
+    this.ring = ring;
     this.shards = new Map();
   }
 
@@ -103,7 +138,8 @@ class ShardedDatabase {
     const shardId = this.ring.get(partitionKey);
     console.log(`  📝 INSERT into ${table} on shard ${shardId} (key: ${partitionKey})`);
 
-    return shard.insert(table, data);
+    this.partitionKeys.add(partitionKey);
+    return shard.insert(table, { ...data, partitionKey });
   }
 
   /**
@@ -121,6 +157,63 @@ class ShardedDatabase {
     return shard.query<T>(sql, []);
   }
 
+  /**
+   * Stream all known partition keys
+   * In production this would be a cursor over the shards' key index
+   */
+  private async *scanPartitionKeys(): AsyncGenerator<string> {
+    yield* this.partitionKeys;
+  }
+
+  /**
+   * Re-shard onto a new layout, moving only the keys whose shard changes
+   */
+  async reshard(next: HashStrategy): Promise<void> {
+    for (const shardId of next.nodes) {
+      if (!this.shards.has(shardId)) {
+        this.shards.set(shardId, new MockDatabaseClient(shardId));
+        console.log(`✅ Added database shard: ${shardId}`);
+      }
+    }
+
+    // Plan the moves, one batch per source/destination pair
+    const groups = await groupMoves(planMigration(this.ring, next, this.scanPartitionKeys()));
+    for (const { from, to, keys } of groups) {
+      console.log(`  🚚 Moving ${keys.length} key(s) from ${from} to ${to}`);
+    }
+
+    // Copy, then delete, with up to 4 keys in flight and retries on failure
+    const result = await rebalance(
+      groups.flatMap(({ from, to, keys }) => keys.map((key) => ({ key, from, to }))),
+      {
+        concurrency: 4,
+        copy: async (key, from, to) => {
+          const source = this.shards.get(from!) as MockDatabaseClient;
+          for (const [table, record] of source.findByPartitionKey(key)) {
+            await this.shards.get(to)!.insert(table, record);
+          }
+        },
+        delete: async (key, from) => {
+          (this.shards.get(from) as MockDatabaseClient).deleteByPartitionKey(key);
+        },
+        onProgress: ({ completed, move }) => {
+          console.log(`    ✅ ${completed}. ${move.key} now on ${move.to}`);
+        },
+      }
+    );
+    if (result.failed.length > 0) {
+      throw new Error(`${result.failed.length} key(s) failed to move; resume from the checkpoint`);
+    }
+
+    for (const shardId of this.shards.keys()) {
+      if (!next.nodes.includes(shardId)) {
+        this.shards.delete(shardId);
+        console.log(`❌ Removed database shard: ${shardId}`);
+      }
+    }
+    this.ring = next;
+  }
+
   /**
    * Query across all shards (scatter-gather)
    */
@@ -215,12 +308,14 @@ async function demo() {
   console.log(`  Found ${allUsers.length} total users across all shards`);
   console.log();
 
-  // Add a new shard for horizontal scaling
-  console.log('⚡ Adding new database shard for more capacity...');
-  db.addShard('db-shard-4');
+  // Replace a shard, moving only the affected users
+  console.log('⚡ Replacing db-shard-2 with db-shard-4 (hardware refresh)...');
+  const refreshed = new HashOrbit({ replicas: 150 });
+  ['db-shard-1', 'db-shard-3', 'db-shard-4'].forEach((id) => refreshed.add(id));
+  await db.reshard(refreshed);
   console.log();
 
-  // Insert more users (they'll be distributed including new shard)
+  // Insert more users (they'll be distributed including the new shard)
   console.log('💾 Inserting more users...');
   const newUsers = [
     { userId: 'user:1007', name: 'Grace Hopper', email: 'grace@example.com' },
@@ -240,6 +335,23 @@ async function demo() {
   }
   console.log();
 
+  // Same cluster routed with jump consistent hashing
+  console.log('🦘 Switching the routing strategy to JumpHash...');
+  const jumpDb = new ShardedDatabase(new JumpHash());
+  for (const shardId of ['db-shard-1', 'db-shard-2', 'db-shard-3', 'db-shard-4']) {
+    jumpDb.addShard(shardId);
+  }
+  for (const user of [...users, ...newUsers]) {
+    await jumpDb.insert('users', { ...user, createdAt: new Date().toISOString() }, user.userId);
+  }
+  console.log();
+
+  console.log('📊 JumpHash data distribution:');
+  for (const [shardId, count] of jumpDb.getDistribution('users').entries()) {
+    console.log(`  ${shardId}: ${count} records`);
+  }
+  console.log();
+
   console.log('✅ Demo complete!');
   console.log();
   console.log('Key takeaways:');
@@ -248,6 +360,8 @@ async function demo() {
   console.log('  • Single-user queries hit only one shard (fast)');
   console.log('  • Cross-user queries use scatter-gather (slower but necessary)');
   console.log('  • Adding shards is seamless with minimal redistribution');
+  console.log('  • Migration plans list exactly which keys move between which shards');
+  console.log('  • The routing strategy can be swapped without touching the shard logic');
 }
 
 // Run the demo
@@ -2,12 +2,17 @@
  * Redis Cache Sharding Example
  *
  * Demonstrates how to distribute cache keys across multiple Redis instances
- * using consistent hashing for horizontal scalability.
+ * using consistent hashing for horizontal scalability. Servers added with
+ * beginTransition() join through a TransitionRing: reads of keys that moved
+ * fall back to their previous server until the migration completes, so a
+ * resize does not turn every moved key into a cache miss. The ring holds
+ * server objects with their Redis clients, keyed by host, so lookups return
+ * the client directly and no separate client map has to be kept in sync.
  *
  * Run: npx tsx examples/redis-cache-sharding.ts
  */
 
-import { HashOrbit } from '../src/index.js';
+import { HashOrbit, TransitionRing } from '../src/index.js';
 
 // Mock Redis client for demonstration
 // In production, use 'redis' or 'ioredis' package
@@ -36,23 +41,48 @@ class MockRedisClient implements RedisClient {
   }
 }
 
+// A Redis server as stored in the ring
+interface RedisServer {
+  host: string;
+  client: RedisClient;
+}
+
 // Distributed cache manager using consistent hashing
 class DistributedCache {
-  private ring: HashOrbit;
-  private clients: Map<string, RedisClient>;
+  private ring: HashOrbit<RedisServer>;
+  private transition: TransitionRing<RedisServer> | undefined;
 
   constructor(replicas: number = 150) {
-    this.ring = new HashOrbit({ replicas });
-    this.clients = new Map();
+    this.ring = new HashOrbit<RedisServer>({ replicas, key: (server) => server.host });
+    this.watch(this.ring);
+  }
+
+  /**
+   * Log how much of the keyspace each change to a ring moves
+   */
+  private watch(ring: HashOrbit<RedisServer>): void {
+    ring.on('changed', ({ ranges, fractionMoved }) => {
+      console.log(
+        `   🔄 ${ranges.length} hash ranges (${(fractionMoved * 100).toFixed(1)}% of keys) changed server`
+      );
+    });
   }
 
   /**
    * Add a Redis server to the cache cluster
+   * Weight is relative capacity, e.g. 4 for a 64 GB box next to 16 GB ones
    */
-  addServer(host: string): void {
-    this.ring.add(host);
-    this.clients.set(host, new MockRedisClient(host));
-    console.log(`✅ Added Redis server: ${host}`);
+  addServer(host: string, weight: number = 1): void {
+    this.ring.add({ host, client: new MockRedisClient(host) }, { weight });
+    console.log(`✅ Added Redis server: ${host} (weight ${weight})`);
+  }
+
+  /**
+   * Change a server's share of keys after a hardware change
+   */
+  resizeServer(host: string, weight: number): void {
+    this.ring.setWeight(host, weight);
+    console.log(`📐 Resized Redis server: ${host} (weight ${weight})`);
   }
 
   /**
@@ -60,45 +90,69 @@ class DistributedCache {
    */
   removeServer(host: string): void {
     this.ring.remove(host);
-    this.clients.delete(host);
     console.log(`❌ Removed Redis server: ${host}`);
   }
 
   /**
-   * Get the Redis client for a given cache key
+   * Add a Redis server while keeping moved keys readable
+   * Until completeTransition(), reads of keys whose owner changed fall back
+   * to the previous server and copy the value to the new one.
    */
-  private getClientForKey(key: string): RedisClient | undefined {
-    const serverHost = this.ring.get(key);
-    if (!serverHost) return undefined;
-    return this.clients.get(serverHost);
+  beginTransition(host: string, weight: number = 1): void {
+    const next = this.ring.with({ host, client: new MockRedisClient(host) }, { weight });
+    this.watch(next);
+    this.transition = new TransitionRing(this.ring, next);
+    this.ring = next;
+    console.log(`🔀 Adding Redis server: ${host} (${this.transition.ranges.length} ranges moving)`);
   }
 
   /**
-   * Get a value from the distributed cache
+   * Finish a transition once moved keys have been copied or have expired
    */
-  async get(key: string): Promise<string | null> {
-    const client = this.getClientForKey(key);
-    if (!client) {
-      throw new Error('No cache servers available');
+  completeTransition(): void {
+    if (!this.transition) return;
+    for (const range of this.transition.pendingRanges) {
+      this.transition.markComplete(range.index);
     }
+    console.log(`✅ Transition complete: ${this.transition}`);
+    this.transition = undefined;
+  }
 
+  /**
+   * Get the Redis server for a given cache key
+   */
+  private getServerForKey(key: string): RedisServer {
     const server = this.ring.get(key);
-    console.log(`📖 Reading key "${key}" from ${server}`);
+    if (!server) {
+      throw new Error('No cache servers available');
+    }
+    return server;
+  }
 
-    return client.get(key);
+  /**
+   * Get a value from the distributed cache
+   */
+  async get(key: string): Promise<string | null> {
+    const { host, client } = this.getServerForKey(key);
+    console.log(`📖 Reading key "${key}" from ${host}`);
+
+    const value = await client.get(key);
+    const previous = this.transition?.get(key).previous;
+    if (value !== null || !previous) return value;
+
+    // Read-through: the key has not been migrated to its new server yet
+    const fallback = await previous.client.get(key);
+    console.log(`   ↪️  Miss during transition, read from ${previous.host}`);
+    if (fallback !== null) await client.set(key, fallback);
+    return fallback;
   }
 
   /**
    * Set a value in the distributed cache
    */
   async set(key: string, value: string, ttl?: number): Promise<void> {
-    const client = this.getClientForKey(key);
-    if (!client) {
-      throw new Error('No cache servers available');
-    }
-
-    const server = this.ring.get(key);
-    console.log(`📝 Writing key "${key}" to ${server}`);
+    const { host, client } = this.getServerForKey(key);
+    console.log(`📝 Writing key "${key}" to ${host}`);
 
     return client.set(key, value, ttl);
   }
@@ -107,13 +161,8 @@ class DistributedCache {
    * Delete a value from the distributed cache
    */
   async delete(key: string): Promise<void> {
-    const client = this.getClientForKey(key);
-    if (!client) {
-      throw new Error('No cache servers available');
-    }
-
-    const server = this.ring.get(key);
-    console.log(`🗑️  Deleting key "${key}" from ${server}`);
+    const { host, client } = this.getServerForKey(key);
+    console.log(`🗑️  Deleting key "${key}" from ${host}`);
 
     return client.del(key);
   }
@@ -123,7 +172,7 @@ class DistributedCache {
    */
   getStats(): { servers: number; totalKeys: number } {
     let totalKeys = 0;
-    for (const client of this.clients.values()) {
+    for (const { client } of this.ring.nodes) {
       if (client instanceof MockRedisClient) {
         totalKeys += client['store'].size;
       }
@@ -177,9 +226,22 @@ async function demo() {
   console.log(`📊 Cache stats: ${stats1.servers} servers, ${stats1.totalKeys} keys`);
   console.log();
 
-  // Add another server (horizontal scaling)
+  // Add another server (horizontal scaling) without losing moved keys
   console.log('⚡ Adding new Redis server for more capacity...');
-  cache.addServer('redis-4.example.com:6379');
+  cache.beginTransition('redis-4.example.com:6379', 4);
+  console.log();
+
+  console.log('📚 Reading cache entries during the transition...');
+  for (const key of ['user:1001', 'user:1002', 'user:1003', 'session:abc123']) {
+    const value = await cache.get(key);
+    console.log(`  ${key} found: ${value !== null}`);
+  }
+  cache.completeTransition();
+  console.log();
+
+  // Give an upgraded server a larger share of keys
+  console.log('📐 redis-1 was upgraded to twice the memory...');
+  cache.resizeServer('redis-1.example.com:6379', 2);
   console.log();
 
   // Keys automatically redistribute (minimal impact)
@@ -206,6 +268,9 @@ async function demo() {
   console.log('Key takeaways:');
   console.log('  • Keys are automatically distributed across Redis servers');
   console.log('  • Adding servers causes minimal key redistribution (~1/n)');
+  console.log('  • The ring stores server objects, so lookups return the Redis client directly');
+  console.log('  • A TransitionRing reads moved keys from their old server until migrated');
+  console.log('  • Weights give larger servers a proportionally larger share of keys');
   console.log('  • Consistent hashing ensures deterministic routing');
   console.log('  • Same key always routes to same server (until topology changes)');
 }
@@ -2,12 +2,17 @@
  * Sticky Load Balancing Example
  *
  * Demonstrates load balancing with session affinity where user sessions
- * consistently route to the same application server.
+ * consistently route to the same application server. Routing uses a
+ * Maglev lookup table, so a request to a healthy server costs a single
+ * array read instead of a binary search over the ring. Sessions of an unhealthy server fail
+ * over along their own preference order rather than to one shared backup,
+ * and the end of the demo shows HashOrbit's health states doing the same on
+ * the ring itself with markDown() and markUp().
  *
  * Run: npx tsx examples/sticky-load-balancing.ts
  */
 
-import { HashOrbit } from '../src/index.js';
+import { HashOrbit, MaglevHash, type HashStrategy } from '../src/index.js';
 
 // Mock application server for demonstration
 interface AppServer {
@@ -57,14 +62,16 @@ class MockAppServer implements AppServer {
   }
 }
 
-// Sticky load balancer using consistent hashing
+// Sticky load balancer using Maglev hashing
 class StickyLoadBalancer {
-  private ring: HashOrbit;
+  private ring: HashStrategy;
   private servers: Map<string, AppServer>;
+  private homes: Map<string, string>;
 
-  constructor(replicas: number = 150) {
-    this.ring = new HashOrbit({ replicas });
+  constructor(ring: HashStrategy = new MaglevHash({ tableSize: 65537 })) {
+    this.ring = ring;
     this.servers = new Map();
+    this.homes = new Map();
   }
 
   /**
@@ -97,21 +104,34 @@ class StickyLoadBalancer {
   }
 
   /**
-   * Get the server for a session, with fallback to healthy servers
+   * Mark a recovered server as healthy, returning its sessions to it
+   */
+  markServerHealthy(serverId: string): void {
+    const server = this.servers.get(serverId);
+    if (server) {
+      server.healthy = true;
+      console.log(`💚 Marked server as healthy: ${serverId}`);
+    }
+  }
+
+  /**
+   * Get the server for a session, failing over along the session's preference order
+   * A healthy home server costs one table read. Each session of an
+   * unhealthy server moves to its own next choice, so failed-over sessions
+   * stay sticky and spread over the healthy servers.
    */
   private getServerForSession(sessionId: string): AppServer | undefined {
-    // Try primary server
-    const primaryServerId = this.ring.get(sessionId);
-    if (primaryServerId) {
-      const server = this.servers.get(primaryServerId);
-      if (server?.healthy) {
-        return server;
-      }
+    const home = this.ring.get(sessionId);
+    if (home === undefined) return undefined;
+    const server = this.servers.get(home);
+    if (server?.healthy) {
+      return server;
     }
 
-    // Fallback: find any healthy server
-    for (const server of this.servers.values()) {
-      if (server.healthy) {
+    // Only sessions of an unhealthy server walk the table for their next choices
+    for (const serverId of this.ring.getN(sessionId, this.ring.size)) {
+      const server = this.servers.get(serverId);
+      if (server?.healthy) {
         return server;
       }
     }
@@ -128,9 +148,9 @@ class StickyLoadBalancer {
       throw new Error('No healthy servers available');
     }
 
-    const serverId = this.ring.get(sessionId);
-    const isPrimary = server.id === serverId;
-    const marker = isPrimary ? '🎯' : '🔄';
+    // Sessions away from the server they started on are failing over
+    if (!this.homes.has(sessionId)) this.homes.set(sessionId, server.id);
+    const marker = server.id === this.homes.get(sessionId) ? '🎯' : '🔄';
 
     console.log(`  ${marker} Routing session ${sessionId} to ${server.id}`);
 
@@ -214,7 +234,7 @@ async function demo() {
   lb.markServerUnhealthy('app-server-2');
   console.log();
 
-  // Sessions from failed server automatically failover
+  // Only sessions from the failed server fail over; the rest stay put
   console.log('🔄 Requests after server failure (automatic failover):');
   for (const sessionId of sessions) {
     const response = await lb.routeRequest(sessionId);
@@ -222,6 +242,15 @@ async function demo() {
   }
   console.log();
 
+  // Recovery returns failed-over sessions to their original server
+  console.log('💚 app-server-2 recovered...');
+  lb.markServerHealthy('app-server-2');
+  for (const sessionId of sessions) {
+    const response = await lb.routeRequest(sessionId);
+    console.log(`  ${response}`);
+  }
+  console.log();
+
   // Add new server for scaling
   console.log('⚡ Adding new server for horizontal scaling...');
   lb.addServer('app-server-4');
@@ -247,14 +276,45 @@ async function demo() {
   }
   console.log();
 
+  // Measure how many sessions would move if a server were removed
+  console.log('📐 Disruption from removing app-server-3:');
+  const before = new MaglevHash();
+  ['app-server-1', 'app-server-2', 'app-server-3', 'app-server-4'].forEach((id) => before.add(id));
+  const after = MaglevHash.fromJSON(before.toJSON());
+  after.remove('app-server-3');
+  const { changed, unnecessary } = MaglevHash.disruption(before, after);
+  console.log(`  ${(changed * 100).toFixed(1)}% of table slots change owner`);
+  console.log(`  ${(unnecessary * 100).toFixed(2)}% move between surviving servers`);
+  console.log();
+
+  // Health states on a HashOrbit ring: a down server keeps its positions
+  console.log('🩺 Health states on a HashOrbit ring:');
+  const ring = new HashOrbit();
+  ring.addAll(['app-server-1', 'app-server-2', 'app-server-3', 'app-server-4']);
+  const many = Array.from({ length: 10000 }, (_, i) => `session-${i}`);
+  const home = many.map((sessionId) => ring.get(sessionId));
+
+  ring.markDown('app-server-2');
+  const failedOver = many.filter((sessionId, i) => ring.get(sessionId) !== home[i]);
+  const ownedBefore = home.filter((serverId) => serverId === 'app-server-2').length;
+  console.log(`  app-server-2 down: ${failedOver.length} sessions moved (it owned ${ownedBefore})`);
+
+  ring.markUp('app-server-2');
+  const restored = many.every((sessionId, i) => ring.get(sessionId) === home[i]);
+  console.log(`  app-server-2 up: every session back on its server: ${restored}`);
+  console.log();
+
   console.log('✅ Demo complete!');
   console.log();
   console.log('Key takeaways:');
   console.log('  • Each session consistently routes to the same server');
   console.log('  • Session affinity maintained across multiple requests');
-  console.log('  • Automatic failover when servers become unhealthy');
+  console.log("  • Failover moves only the unhealthy server's sessions, each to its next choice");
+  console.log('  • Sessions return to their server when it recovers');
+  console.log('  • HashOrbit.markDown() / markUp() do this on the ring without removing nodes');
   console.log('  • Minimal session redistribution when topology changes');
   console.log('  • No external session store needed for sticky routing');
+  console.log('  • Maglev lookups to healthy servers are O(1) table reads');
 }
 
 // Run the demo
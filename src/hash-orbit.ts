@@ -0,0 +1,2353 @@
+/**
+ * Consistent hashing ring with virtual nodes
+ * @module hash-orbit/hash-orbit
+ */
+
+import {
+  resolveHash,
+  restoreHash,
+  type HashAlgorithm,
+  type HashFunction,
+  type HashName,
+} from './hashes.js';
+import { ringProfiles, type RingProfile, type RingProfileName } from './profiles.js';
+import type { HashStrategy } from './strategy.js';
+import { validateIdentifier, validateWeight } from './validation.js';
+
+/**
+ * Converts node objects to and from JSON-compatible values
+ */
+export interface NodeCodec<TNode> {
+  /**
+   * Encodes a node's data
+   * @param node - The node object
+   * @returns A JSON-compatible value
+   */
+  encode(node: TNode): unknown;
+
+  /**
+   * Restores a node from its encoded data
+   * @param data - A value returned by encode()
+   * @param id - The node's identifier
+   * @returns The node object
+   */
+  decode(data: unknown, id: string): TNode;
+}
+
+/**
+ * Configuration options for HashOrbit
+ */
+export interface HashOrbitOptions<TNode = string> {
+  /**
+   * Number of virtual nodes per physical node
+   * More replicas = better distribution but more memory
+   * @default 150
+   */
+  replicas?: number;
+
+  /**
+   * Hash function for virtual node placement and key lookup
+   * Either the name of a bundled algorithm or a custom function returning an
+   * unsigned 32-bit integer. Rings that must agree on key ownership have to
+   * use the same hash.
+   * @default 'murmur3'
+   */
+  hash?: HashAlgorithm | HashFunction;
+
+  /**
+   * Compatibility profile reproducing another library's ring
+   * The profile fixes the hash function, virtual node naming and weight
+   * handling so keys land on the same nodes as in that library; `replicas`
+   * then counts points per node and defaults to the library's value
+   */
+  profile?: RingProfileName;
+
+  /**
+   * Capacity factor c for consistent hashing with bounded loads
+   * When set, load placed with acquire() is capped at ceil(c × average load)
+   * per node (scaled by weight), and get() walks clockwise past nodes at
+   * capacity. Must be at least 1; values like 1.25 trade a little
+   * stability for a hard bound on hot spots.
+   */
+  capacityFactor?: number;
+
+  /**
+   * Number of probes per key for multi-probe consistent hashing
+   * Each node takes a single position (`replicas` defaults to 1) and a key
+   * is hashed K times; the probe closest to a node's position picks the
+   * node. 21 probes give a peak-to-mean load of about 1.09–1.12 for 5–100
+   * nodes in `benchmarks/multi-probe.ts`, with one position per node
+   * instead of 150.
+   */
+  probes?: number;
+
+  /**
+   * Record every add, remove and weight change in an append-only log
+   * The log can be serialized with getLog(), replayed to any version with
+   * HashOrbit.replay() and compacted with compactLog().
+   * @default false
+   */
+  operationLog?: boolean;
+
+  /**
+   * Extracts the identifier of a node object
+   * Required for rings of node objects; string nodes are their own
+   * identifiers. Virtual nodes are placed by identifier, so identifiers must
+   * be unique and stable.
+   */
+  key?: (node: TNode) => string;
+
+  /**
+   * Encodes node objects for toJSON() and the operation log, and decodes
+   * them in fromJSON() and replay()
+   * Without a codec only node identifiers are serialized.
+   */
+  codec?: NodeCodec<TNode>;
+}
+
+/**
+ * Options for adding a node to the ring
+ */
+export interface AddOptions {
+  /**
+   * Relative capacity of the node
+   * Scales the number of virtual nodes: a node with weight 2 receives
+   * twice as many virtual nodes (and roughly twice the keys) as weight 1
+   * @default 1
+   */
+  weight?: number;
+
+  /**
+   * Failure domain (availability zone, data center) the node runs in
+   * getN() spreads a key's replicas over distinct zones before repeating one.
+   */
+  zone?: string;
+
+  /**
+   * Rack within the zone
+   * With per-zone replica counts, getN() spreads each zone's replicas over
+   * distinct racks before repeating one.
+   */
+  rack?: string;
+}
+
+/**
+ * One node of a preference list from HashOrbit.getPreferenceList()
+ */
+export interface PreferenceEntry<TNode = string> {
+  /** Node to send the key's reads and writes to */
+  node: TNode;
+  /**
+   * Down replica this node stands in for
+   * Writes accepted for the hint are handed back to it once it is marked up.
+   */
+  hint?: TNode;
+}
+
+/**
+ * Failure domains a node was added with
+ */
+export interface NodeLocation {
+  zone?: string;
+  rack?: string;
+}
+
+/**
+ * A range of key hashes whose owner changed between two rings
+ */
+export interface MovedRange {
+  /** First hash in the range (inclusive) */
+  start: number;
+  /** Last hash in the range (inclusive) */
+  end: number;
+  /** Owner before the change (undefined if the ring was empty) */
+  from: string | undefined;
+  /** Owner after the change (undefined if the ring is now empty) */
+  to: string | undefined;
+}
+
+/**
+ * Difference in key ownership between two rings
+ */
+export interface RingDiff {
+  /** Ranges whose owner changed, in ascending hash order */
+  ranges: MovedRange[];
+  /** Fraction of the 32-bit keyspace that changed owner */
+  fractionMoved: number;
+}
+
+/**
+ * Keyspace ownership of one node
+ */
+export interface NodeStats<TNode = string> {
+  node: TNode;
+  weight: number;
+  /** Number of virtual nodes placed for the node */
+  virtualNodes: number;
+  /** Fraction of the 32-bit keyspace the node owns */
+  ownership: number;
+  /** Fraction the node should own given its weight (weight / total weight) */
+  expected: number;
+  /** Relative deviation from the expected share (ownership / expected - 1) */
+  deviation: number;
+}
+
+/**
+ * A stretch of the keyspace owned by a single ring position
+ */
+export interface RingArc<TNode = string> {
+  /** First hash in the arc (inclusive); greater than end for the arc that wraps past 2^32 */
+  start: number;
+  /** Last hash in the arc (inclusive), the owning position */
+  end: number;
+  node: TNode;
+  /** Fraction of the 32-bit keyspace the arc covers */
+  fraction: number;
+}
+
+/**
+ * Exact keyspace ownership statistics of a ring
+ */
+export interface RingStats<TNode = string> {
+  /** Per-node ownership, in node order */
+  nodes: NodeStats<TNode>[];
+  /** Number of distinct ring positions */
+  positions: number;
+  /** Smallest node ownership */
+  min: number;
+  /** Largest node ownership */
+  max: number;
+  /** Mean node ownership (1 / nodes) */
+  mean: number;
+  /** Standard deviation of node ownership */
+  stddev: number;
+  /** Largest ownership divided by the mean */
+  peakToMean: number;
+  /** Largest ownership divided by the node's expected share */
+  weightedPeakToMean: number;
+  /** Largest absolute deviation from a node's expected share */
+  maxDeviation: number;
+  /** Longest arcs, longest first */
+  largestArcs: RingArc<TNode>[];
+}
+
+/**
+ * A half-open range [start, end) of the 32-bit keyspace
+ */
+export interface RingRange {
+  /** First hash in the range (inclusive) */
+  start: number;
+  /** End of the range (exclusive), at most 2^32 */
+  end: number;
+}
+
+/**
+ * A virtual node: one position on the ring and the node owning it
+ */
+export interface VirtualNode<TNode = string> {
+  position: number;
+  node: TNode;
+}
+
+/**
+ * Events emitted by a HashOrbit ring, keyed by event name
+ * Node events are emitted once the ring positions reflect the change (for
+ * a batch, when it ends), followed by a single `changed` event. Health
+ * events are emitted as soon as a node is marked down or up, also followed
+ * by `changed` for the keys that fail over or return.
+ */
+export interface HashOrbitEvents<TNode = string> {
+  /** A node joined the ring */
+  nodeAdded: { node: TNode; weight: number };
+  /** A node left the ring */
+  nodeRemoved: { node: TNode; weight: number };
+  /** A node's weight changed */
+  weightChanged: { node: TNode; weight: number; previousWeight: number };
+  /** A node was marked down; its keys fail over clockwise */
+  nodeDown: { node: TNode };
+  /** A node marked down was marked up again; its keys return to it */
+  nodeUp: { node: TNode };
+  /**
+   * Key hash ranges whose owner changed, as from HashOrbit.diff()
+   * Emitted for membership changes and for nodes marked down or up, only
+   * when some range moved, and not in multi-probe mode.
+   */
+  changed: RingDiff;
+}
+
+/**
+ * Listener for a HashOrbit event
+ */
+export type HashOrbitListener<E extends keyof HashOrbitEvents, TNode = string> = (
+  event: HashOrbitEvents<TNode>[E]
+) => void;
+
+/**
+ * Immutable read-only view of a ring at one version
+ * Returned by HashOrbit.snapshot(); lookups keep routing with the topology
+ * the snapshot was taken at, whatever happens to the ring afterwards.
+ */
+export interface RingSnapshot<TNode = string> {
+  /** Version of the ring the snapshot was taken at */
+  readonly version: number;
+  /** Number of nodes */
+  readonly size: number;
+  /** Nodes in the ring */
+  readonly nodes: TNode[];
+  get(key: string): TNode | undefined;
+  getN(key: string, count: number | Record<string, number>): TNode[];
+  getNode(id: string): TNode | undefined;
+  getPreferenceList(key: string, count: number | Record<string, number>): PreferenceEntry<TNode>[];
+  getLocation(node: TNode | string): NodeLocation | undefined;
+  getWeight(node: TNode | string): number | undefined;
+  hashKey(key: string): number;
+  has(node: TNode | string): boolean;
+  isDown(node: TNode | string): boolean;
+  ownerOf(position: number): TNode | undefined;
+  positionsOf(node: TNode | string): number[];
+  rangesOf(node: TNode | string): RingRange[];
+  stats(options?: { arcs?: number }): RingStats<TNode>;
+  /** New mutable ring with the node added (or its weight updated) */
+  with(node: TNode, options?: AddOptions): HashOrbit<TNode>;
+  /** New mutable ring without the node */
+  without(node: TNode | string): HashOrbit<TNode>;
+  toJSON(): HashOrbitJSON;
+  toString(): string;
+  [Symbol.iterator](): IterableIterator<VirtualNode<TNode>>;
+}
+
+/**
+ * A membership change recorded in the operation log
+ */
+export interface RingOperation {
+  /** Ring version the change took effect in (changes in one batch share a version) */
+  version: number;
+  /** Time of the change in milliseconds since the epoch */
+  timestamp: number;
+  type: 'add' | 'remove' | 'setWeight';
+  /** Node identifier */
+  node: string;
+  /** Node weight after the change (add and setWeight only) */
+  weight?: number;
+  /** Node zone (add only, if the node has one) */
+  zone?: string;
+  /** Node rack (add only, if the node has one) */
+  rack?: string;
+  /** Node encoded with the ring's codec (add only, if the ring has a codec) */
+  metadata?: unknown;
+}
+
+/**
+ * Serialized operation log: a compacted base ring plus the changes after it
+ */
+export interface RingLog {
+  /** Version of the base ring */
+  baseVersion: number;
+  /** Ring state at baseVersion */
+  base: HashOrbitJSON;
+  /** Changes after baseVersion, in order */
+  operations: RingOperation[];
+}
+
+/**
+ * Serialized form of a HashOrbit ring
+ */
+export interface HashOrbitJSON {
+  /** Node identifiers */
+  nodes: string[];
+  replicas: number;
+  /**
+   * Hash algorithm the ring was built with ('custom' for user-supplied functions)
+   * Rings serialized before this field existed used 'murmur3'.
+   */
+  hash?: HashName;
+  /**
+   * Compatibility profile the ring was built with, if any
+   */
+  profile?: RingProfileName;
+  /**
+   * Weights of nodes that differ from the default weight of 1
+   */
+  weights?: Record<string, number>;
+  /**
+   * Zones of nodes added with one
+   */
+  zones?: Record<string, string>;
+  /**
+   * Racks of nodes added with one
+   */
+  racks?: Record<string, string>;
+  /**
+   * Capacity factor for bounded loads, if enabled (live loads are not serialized)
+   */
+  capacityFactor?: number;
+  /**
+   * Probes per key, if multi-probe mode is enabled
+   */
+  probes?: number;
+  /**
+   * Nodes encoded with the ring's codec, by identifier
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Murmur3 32-bit finalizer, spreading a seed into an independent-looking probe
+ * @param value - 32-bit input
+ * @returns Unsigned 32-bit output
+ * @private
+ */
+function mix32(value: number): number {
+  value ^= value >>> 16;
+  value = Math.imul(value, 0x85ebca6b);
+  value ^= value >>> 13;
+  value = Math.imul(value, 0xc2b2ae35);
+  value ^= value >>> 16;
+  return value >>> 0;
+}
+
+/**
+ * Deep-copies a JSON-compatible value
+ * @private
+ */
+function structuredCopy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Sorted ring positions with the node table slot owning each one
+ * @private
+ */
+interface RingLayout {
+  positions: Uint32Array;
+  owners: Uint16Array | Uint32Array;
+  nodeTable: ReadonlyArray<string | undefined>;
+}
+
+/**
+ * Binary search to find the first position >= target (lower bound)
+ * @param positions - Sorted positions
+ * @param target - The hash position to search for
+ * @returns Index of the first element >= target, or positions.length if not found
+ * @private
+ */
+function lowerBound(positions: Uint32Array, target: number): number {
+  let left = 0;
+  let right = positions.length;
+
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (positions[mid]! < target) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+
+  return left;
+}
+
+/**
+ * Restores a serialized node
+ * @param id - The node identifier
+ * @param data - The node's encoded data, if any
+ * @param codec - Codec to decode the data with
+ * @returns The decoded node, or the identifier for nodes serialized without a codec
+ * @throws Error if the node has encoded data but no codec is given
+ * @private
+ */
+function decodeNode<TNode>(id: string, data: unknown, codec: NodeCodec<TNode> | undefined): TNode {
+  if (codec) return codec.decode(data, id);
+  if (data !== undefined) {
+    throw new Error(`Node "${id}" was serialized with a codec; pass the codec to restore it`);
+  }
+  // Without a codec, nodes are their identifiers
+  return id as TNode;
+}
+
+/**
+ * Gets the owner of the first position at or after a hash, wrapping around
+ * @param layout - The ring layout
+ * @param position - Key hash
+ * @returns The owning node, or undefined if the ring is empty
+ * @private
+ */
+function ownerAt(layout: RingLayout, position: number): string | undefined {
+  if (layout.positions.length === 0) return undefined;
+  const idx = lowerBound(layout.positions, position);
+  return layout.nodeTable[layout.owners[idx >= layout.positions.length ? 0 : idx]!];
+}
+
+/**
+ * Computes which ranges of the keyspace changed owner between two layouts
+ * @private
+ */
+function diffLayouts(before: RingLayout, after: RingLayout): RingDiff {
+  // Between consecutive positions of either ring, both owners are constant
+  const boundaries = [...new Set([...before.positions, ...after.positions])].sort((a, b) => a - b);
+  if (boundaries[boundaries.length - 1] !== 0xffffffff) boundaries.push(0xffffffff);
+
+  const ranges: MovedRange[] = [];
+  let moved = 0;
+  let start = 0;
+  for (const end of boundaries) {
+    const from = ownerAt(before, end);
+    const to = ownerAt(after, end);
+    if (from !== to) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === start - 1 && last.from === from && last.to === to) {
+        last.end = end;
+      } else {
+        ranges.push({ start, end, from, to });
+      }
+      moved += end - start + 1;
+    }
+    start = end + 1;
+  }
+
+  return { ranges, fractionMoved: moved / 0x100000000 };
+}
+
+/**
+ * Failure domains of the nodes on the ring, as used by getN()
+ * @private
+ */
+interface DomainIndex {
+  /** Distinct zones, counting each node without a zone as its own */
+  zones: number;
+  /** Distinct racks per zone, counting each node without a rack as its own */
+  racks: Map<string, number>;
+}
+
+/**
+ * Empty set of nodes to skip, for replica placement that ignores health
+ * @private
+ */
+const NO_NODES: ReadonlySet<string> = new Set();
+
+/**
+ * Validates the zone and rack given for a node
+ * @param location - Options holding the zone and rack, either of which may be absent
+ * @throws Error if the zone or rack is invalid
+ * @private
+ */
+function validateLocation({ zone, rack }: NodeLocation): void {
+  if (zone !== undefined) validateIdentifier(zone, 'Zone');
+  if (rack !== undefined) validateIdentifier(rack, 'Rack');
+}
+
+/**
+ * Domain of a node without a zone or rack, distinct from every other domain
+ * @private
+ */
+function soleDomain(id: string): string {
+  return `\0${id}`;
+}
+
+/**
+ * Multiplier packing a node slot below a position in one double
+ * position × 2^21 + slot stays below 2^53, so packed values are exact
+ * @private
+ */
+const SLOT_SCALE = 2 ** 21;
+
+/**
+ * Maximum number of node slots a ring can pack
+ * @private
+ */
+const MAX_NODES = SLOT_SCALE;
+
+/**
+ * HashOrbit - A consistent hashing implementation using virtual nodes
+ *
+ * Ring positions are kept in a sorted Uint32Array with a parallel array of
+ * indices into a node table (Uint16Array while the table has at most 65,536
+ * slots), about 6 bytes per position. Each node also keeps its own virtual
+ * node positions so membership changes never rehash the other nodes.
+ *
+ * Nodes are strings by default. Rings of node objects (HashOrbit<TNode>)
+ * take a key extractor giving each object's identifier; the ring stores
+ * identifiers and maps them back to the objects on lookup.
+ * @class
+ */
+export class HashOrbit<TNode = string> implements HashStrategy<TNode> {
+  private positions: Uint32Array;
+  private owners: Uint16Array | Uint32Array;
+  private readonly nodeTable: Array<string | undefined>;
+  private readonly nodeSlots: Map<string, number>;
+  private readonly freeSlots: number[];
+  private readonly replicas: number;
+  private readonly hash: HashFunction;
+  private readonly hashName: HashName;
+  private readonly profileName: RingProfileName | undefined;
+  private readonly profile: RingProfile | undefined;
+  private readonly weights: Map<string, number>;
+  private readonly members: Map<string, TNode>;
+  private readonly locations: Map<string, NodeLocation>;
+  private readonly down: Set<string>;
+  private readonly domainIndex: Map<ReadonlySet<string>, DomainIndex>;
+  private readonly key: ((node: TNode) => string) | undefined;
+  private readonly codec: NodeCodec<TNode> | undefined;
+  private readonly virtualNodes: Map<string, Uint32Array>;
+  private readonly capacityFactor: number | undefined;
+  private readonly probes: number | undefined;
+  private readonly loads: Map<string, number>;
+  private readonly assignments: Map<string, string[]>;
+  private totalLoad: number;
+  private batchDepth: number;
+  private readonly pendingNodes: Set<string>;
+  private readonly listeners: Map<keyof HashOrbitEvents, Set<(event: never) => void>>;
+  private pendingEvents: Array<() => void>;
+  private currentVersion: number;
+  private frozen: boolean;
+  private cachedSnapshot: HashOrbit<TNode> | undefined;
+  private operationLog: RingLog | undefined;
+
+  /**
+   * Creates a new HashOrbit instance
+   * @param options - Configuration options for the hash ring
+   * @throws Error if the profile is unknown or combined with a hash option or
+   * multi-probe mode, or the capacity factor or probe count is invalid
+   */
+  constructor(options: HashOrbitOptions<TNode> = {}) {
+    if (options.profile !== undefined) {
+      if (!Object.prototype.hasOwnProperty.call(ringProfiles, options.profile)) {
+        throw new Error(`Unknown profile "${options.profile}"`);
+      }
+      if (options.hash !== undefined) {
+        throw new Error(`The ${options.profile} profile defines its own hash function`);
+      }
+      if (options.probes !== undefined) {
+        throw new Error(`The ${options.profile} profile cannot be combined with multi-probe mode`);
+      }
+      this.profileName = options.profile;
+      this.profile = ringProfiles[options.profile];
+    }
+    if (
+      options.probes !== undefined &&
+      !(Number.isInteger(options.probes) && options.probes >= 1)
+    ) {
+      throw new Error('Probes must be a positive integer');
+    }
+    if (
+      options.capacityFactor !== undefined &&
+      !(Number.isFinite(options.capacityFactor) && options.capacityFactor >= 1)
+    ) {
+      throw new Error('Capacity factor must be a finite number of at least 1');
+    }
+
+    this.probes = options.probes;
+    this.replicas =
+      options.replicas ?? this.profile?.replicas ?? (options.probes !== undefined ? 1 : 150);
+    const { name, fn } = resolveHash(this.profile?.hash ?? options.hash);
+    this.hash = fn;
+    this.hashName = name;
+    this.positions = new Uint32Array(0);
+    this.owners = new Uint16Array(0);
+    this.nodeTable = [];
+    this.nodeSlots = new Map();
+    this.freeSlots = [];
+    this.weights = new Map();
+    this.members = new Map();
+    this.locations = new Map();
+    this.down = new Set();
+    this.domainIndex = new Map();
+    this.key = options.key;
+    this.codec = options.codec;
+    this.virtualNodes = new Map();
+    this.capacityFactor = options.capacityFactor;
+    this.loads = new Map();
+    this.assignments = new Map();
+    this.totalLoad = 0;
+    this.batchDepth = 0;
+    this.pendingNodes = new Set();
+    this.listeners = new Map();
+    this.pendingEvents = [];
+    this.currentVersion = 0;
+    this.frozen = false;
+    this.cachedSnapshot = undefined;
+    this.operationLog = options.operationLog
+      ? { baseVersion: 0, base: this.toJSON(), operations: [] }
+      : undefined;
+  }
+
+  /**
+   * Computes the number of virtual nodes for a given weight
+   * Natively every node keeps at least one virtual node, however small its
+   * weight; compatibility profiles follow their library's own formula
+   * @param weight - The node weight
+   * @param totalWeight - Sum of all node weights (used by profiles only)
+   * @returns Number of virtual nodes
+   * @private
+   */
+  private virtualNodeCount(weight: number, totalWeight: number): number {
+    if (this.profile) {
+      return this.profile.pointCount(this.replicas, weight, totalWeight, this.weights.size);
+    }
+    return Math.max(1, Math.round(this.replicas * weight));
+  }
+
+  /**
+   * Computes the ring positions of virtual nodes [from, to) of a physical node
+   * @param node - The node identifier
+   * @param from - First virtual node index (inclusive)
+   * @param to - Last virtual node index (exclusive)
+   * @returns Positions in virtual node order
+   * @private
+   */
+  private virtualNodePositions(node: string, from: number, to: number): number[] {
+    if (this.profile) return this.profile.points(node, from, to);
+
+    const positions: number[] = [];
+    for (let i = from; i < to; i++) {
+      positions.push(this.hash(`${node}:${i}`));
+    }
+    return positions;
+  }
+
+  /**
+   * Grows or shrinks a node's virtual nodes to the given count
+   * Virtual nodes are only ever added or removed at the end of the node's
+   * sequence, so existing positions stay where they are. The sorted ring
+   * is not updated; call rebuildPositions() afterwards.
+   * @param node - The node identifier
+   * @param count - Target number of virtual nodes
+   * @private
+   */
+  private resizeVirtualNodes(node: string, count: number): void {
+    const current = this.virtualNodes.get(node);
+    const have = current?.length ?? 0;
+    if (count === have) return;
+
+    if (count === 0) {
+      this.virtualNodes.delete(node);
+      this.nodeTable[this.nodeSlots.get(node)!] = undefined;
+      this.freeSlots.push(this.nodeSlots.get(node)!);
+      this.nodeSlots.delete(node);
+      return;
+    }
+
+    if (!current) {
+      const slot = this.freeSlots.pop() ?? this.nodeTable.length;
+      if (slot >= MAX_NODES) {
+        throw new Error(`A ring cannot hold more than ${MAX_NODES} nodes`);
+      }
+      this.nodeTable[slot] = node;
+      this.nodeSlots.set(node, slot);
+    }
+
+    const positions = new Uint32Array(count);
+    if (count < have) {
+      positions.set(current!.subarray(0, count));
+    } else {
+      if (current) positions.set(current);
+      positions.set(this.virtualNodePositions(node, have, count), have);
+    }
+    this.virtualNodes.set(node, positions);
+  }
+
+  /**
+   * Brings virtual node counts in line with the current weights
+   * Inside a batch the node is only recorded, and all recorded nodes are
+   * synced together when the batch ends
+   * @param node - The node whose membership or weight changed
+   * @private
+   */
+  private syncVirtualNodes(node: string): void {
+    if (this.batchDepth > 0) {
+      this.pendingNodes.add(node);
+      return;
+    }
+    this.applyVirtualNodes([node]);
+  }
+
+  /**
+   * Resizes the virtual nodes of changed nodes and re-sorts positions once
+   * Profiles whose counts depend on each node's share of the total weight
+   * resize every node; otherwise only the changed nodes are touched
+   * @param changed - Nodes whose membership or weight changed
+   * @private
+   */
+  private applyVirtualNodes(changed: Iterable<string>): void {
+    // Positions and owners are replaced, not mutated, so the old arrays stay valid
+    const before = this.watchingChanges()
+      ? { ...this.upLayout(), nodeTable: this.nodeTable.slice() }
+      : undefined;
+
+    let totalWeight = 0;
+    for (const weight of this.weights.values()) totalWeight += weight;
+
+    // Departed nodes first, so their table slots can be reused
+    for (const node of changed) {
+      if (!this.weights.has(node)) {
+        this.resizeVirtualNodes(node, 0);
+        this.members.delete(node);
+        this.locations.delete(node);
+      }
+    }
+    for (const node of changed) {
+      const weight = this.weights.get(node);
+      if (weight !== undefined && !this.profile?.proportional) {
+        this.resizeVirtualNodes(node, this.virtualNodeCount(weight, totalWeight));
+      }
+    }
+    if (this.profile?.proportional) {
+      for (const [member, weight] of this.weights) {
+        this.resizeVirtualNodes(member, this.virtualNodeCount(weight, totalWeight));
+      }
+    }
+    this.rebuildPositions();
+    this.currentVersion++;
+    this.cachedSnapshot = undefined;
+    this.domainIndex.clear();
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    for (const emit of events) emit();
+    if (before) this.emitChanged(before);
+  }
+
+  /**
+   * Checks whether `changed` listeners need the layout from before a change
+   * @private
+   */
+  private watchingChanges(): boolean {
+    return Boolean(this.listeners.get('changed')?.size) && this.probes === undefined;
+  }
+
+  /**
+   * Emits `changed` with the ranges that moved since an earlier layout, if any
+   * @param before - The layout lookups saw before the change
+   * @private
+   */
+  private emitChanged(before: RingLayout): void {
+    const diff = diffLayouts(before, this.upLayout());
+    if (diff.ranges.length > 0) this.emit('changed', diff);
+  }
+
+  /**
+   * Rebuilds the sorted positions and owner indices from every node's virtual nodes
+   * Each (position, slot) pair is packed into a double so a single native
+   * sort orders them. A position claimed by several nodes is owned by the
+   * lowest node identifier, so ownership does not depend on the order in
+   * which nodes were added or removed.
+   * @private
+   */
+  private rebuildPositions(): void {
+    let total = 0;
+    for (const positions of this.virtualNodes.values()) total += positions.length;
+
+    const packed = new Float64Array(total);
+    let i = 0;
+    for (const [node, positions] of this.virtualNodes) {
+      const slot = this.nodeSlots.get(node)!;
+      for (const position of positions) packed[i++] = position * SLOT_SCALE + slot;
+    }
+    packed.sort();
+
+    const positions = new Uint32Array(total);
+    const owners =
+      this.nodeTable.length <= 0x10000 ? new Uint16Array(total) : new Uint32Array(total);
+    let count = 0;
+    for (const value of packed) {
+      const position = Math.floor(value / SLOT_SCALE);
+      const slot = value - position * SLOT_SCALE;
+      if (count > 0 && positions[count - 1] === position) {
+        if (this.nodeTable[slot]! < this.nodeTable[owners[count - 1]!]!) owners[count - 1] = slot;
+        continue;
+      }
+      positions[count] = position;
+      owners[count++] = slot;
+    }
+
+    this.positions = count === total ? positions : positions.slice(0, count);
+    this.owners = count === total ? owners : owners.slice(0, count);
+  }
+
+  /**
+   * Gets the node owning the ring position at an index
+   * @param idx - Index into positions
+   * @returns The node identifier
+   * @private
+   */
+  private nodeAt(idx: number): string {
+    return this.nodeTable[this.owners[idx]!]!;
+  }
+
+  /**
+   * Walks clockwise from a ring index to the first node that is not down
+   * @param idx - Index into positions to start at
+   * @returns The node identifier, or undefined if every node is down
+   * @private
+   */
+  private upNodeFrom(idx: number): string | undefined {
+    if (this.down.size === 0) return this.nodeAt(idx);
+    for (let i = 0; i < this.positions.length; i++, idx++) {
+      if (idx >= this.positions.length) idx = 0;
+      const node = this.nodeAt(idx);
+      if (!this.down.has(node)) return node;
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the identifier of a node
+   * @param node - A node object or identifier
+   * @returns The identifier (strings are their own identifier)
+   * @throws Error if the node is an object and the ring has no key extractor
+   * @private
+   */
+  private idOf(node: TNode | string): string {
+    if (typeof node === 'string') return node;
+    if (!this.key) {
+      throw new Error('Node objects need a key extractor; set the key option');
+    }
+    return this.key(node);
+  }
+
+  /**
+   * Gets the node with an identifier
+   * Useful with results that identify nodes by identifier, such as the
+   * ranges from diff() and the operation log.
+   * @param id - The node identifier
+   * @returns The node, or undefined if no node has the identifier
+   */
+  getNode(id: string): TNode | undefined {
+    return this.weights.has(id) ? this.members.get(id) : undefined;
+  }
+
+  /**
+   * Gets the current ring layout
+   * @returns The sorted positions, their owners and the node table
+   * @private
+   */
+  private layout(): RingLayout {
+    return { positions: this.positions, owners: this.owners, nodeTable: this.nodeTable };
+  }
+
+  /**
+   * Gets the layout lookups see, leaving out positions of nodes marked down
+   * @private
+   */
+  private upLayout(): RingLayout {
+    if (this.down.size === 0) return this.layout();
+
+    const kept: number[] = [];
+    for (let i = 0; i < this.positions.length; i++) {
+      if (!this.down.has(this.nodeAt(i))) kept.push(i);
+    }
+    const owners = this.owners.slice(0, kept.length);
+    kept.forEach((idx, i) => (owners[i] = this.owners[idx]!));
+    return {
+      positions: Uint32Array.from(kept, (idx) => this.positions[idx]!),
+      owners,
+      nodeTable: this.nodeTable,
+    };
+  }
+
+  /**
+   * Calls the listeners of an event
+   * @param event - The event name
+   * @param payload - The event payload
+   * @private
+   */
+  private emit<E extends keyof HashOrbitEvents>(
+    event: E,
+    payload: HashOrbitEvents<TNode>[E]
+  ): void {
+    const listeners = this.listeners.get(event) as Set<HashOrbitListener<E, TNode>> | undefined;
+    if (!listeners) return;
+    for (const listener of [...listeners]) listener(payload);
+  }
+
+  /**
+   * Queues an event until the change is applied to the ring positions
+   * @param event - The event name
+   * @param payload - The event payload
+   * @private
+   */
+  private queueEvent<E extends keyof HashOrbitEvents>(
+    event: E,
+    payload: HashOrbitEvents<TNode>[E]
+  ): void {
+    if (this.listeners.get(event)?.size) this.pendingEvents.push(() => this.emit(event, payload));
+  }
+
+  /**
+   * Subscribes to an event
+   * Subscribing the same listener twice has no effect.
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   */
+  on<E extends keyof HashOrbitEvents>(event: E, listener: HashOrbitListener<E, TNode>): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  /**
+   * Unsubscribes from an event
+   * @param event - The event name
+   * @param listener - A listener passed to on()
+   */
+  off<E extends keyof HashOrbitEvents>(event: E, listener: HashOrbitListener<E, TNode>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Appends a change to the operation log, if enabled
+   * @param type - The kind of change
+   * @param node - The node identifier
+   * @param weight - The node weight after the change
+   * @private
+   */
+  private record(type: RingOperation['type'], node: string, weight?: number): void {
+    if (!this.operationLog) return;
+
+    // Changes in a batch take effect together, in the next version
+    const operation: RingOperation = {
+      version: this.currentVersion + 1,
+      timestamp: Date.now(),
+      type,
+      node,
+    };
+    if (weight !== undefined) operation.weight = weight;
+    const location = type === 'add' ? this.locations.get(node) : undefined;
+    if (location?.zone !== undefined) operation.zone = location.zone;
+    if (location?.rack !== undefined) operation.rack = location.rack;
+    if (type === 'add' && this.codec) {
+      operation.metadata = this.codec.encode(this.members.get(node)!);
+    }
+    this.operationLog.operations.push(operation);
+  }
+
+  /**
+   * Gets the operation log
+   * @returns A JSON-compatible copy of the base ring and the changes after it
+   * @throws Error if the operation log is not enabled
+   */
+  getLog(): RingLog {
+    const log = this.requireLog();
+    return {
+      baseVersion: log.baseVersion,
+      base: structuredCopy(log.base),
+      operations: log.operations.map((operation) => ({ ...operation })),
+    };
+  }
+
+  /**
+   * Folds the changes up to a version into the log's base ring
+   * Later changes are kept, so the log can still replay every version from
+   * the new base onwards.
+   * @param version - Last version to fold in (defaults to the current version)
+   * @throws Error if the operation log is not enabled, the version is not in
+   * the log or a batch is in progress
+   */
+  compactLog(version: number = this.currentVersion): void {
+    const log = this.requireLog();
+    if (this.batchDepth > 0) {
+      throw new Error('Cannot compact the log during a batch');
+    }
+    const base =
+      version === this.currentVersion
+        ? this
+        : HashOrbit.rebuild(log, {
+            version,
+            hash: this.profile ? undefined : this.hash,
+            // Without a codec only identifiers are serialized, so none are decoded
+            key: this.codec ? this.key : undefined,
+            codec: this.codec,
+          });
+
+    this.operationLog = {
+      baseVersion: version,
+      base: base.toJSON(),
+      operations: log.operations.filter((operation) => operation.version > version),
+    };
+  }
+
+  /**
+   * Gets the operation log, throwing if it is not enabled
+   * @private
+   */
+  private requireLog(): RingLog {
+    if (!this.operationLog) {
+      throw new Error('Operation log is not enabled; set the operationLog option');
+    }
+    return this.operationLog;
+  }
+
+  /**
+   * Rebuilds a ring from an operation log
+   * Changes that shared a version are applied in one batch, so the rebuilt
+   * ring reaches the same versions as the original. The new ring keeps
+   * logging, starting from the replayed log. Rings of node objects are
+   * rebuilt with their key extractor and codec; without them the rebuilt
+   * ring holds node identifiers.
+   * @param log - A log from getLog()
+   * @param options - Version to stop at (defaults to the last one), the hash
+   * function, required if the ring used a custom one, and the key extractor
+   * and codec for rings of node objects
+   * @returns A new ring at the requested version
+   * @throws Error if the version is not in the log, the hash does not match,
+   * or a key extractor is given without a codec
+   */
+  static replay<TNode>(
+    log: RingLog,
+    options: Pick<HashOrbitOptions<TNode>, 'hash'> &
+      Required<Pick<HashOrbitOptions<TNode>, 'key' | 'codec'>> & { version?: number }
+  ): HashOrbit<TNode>;
+  static replay(
+    log: RingLog,
+    options?: Pick<HashOrbitOptions, 'hash'> & { version?: number }
+  ): HashOrbit;
+  static replay<TNode>(
+    log: RingLog,
+    options: Pick<HashOrbitOptions<TNode>, 'hash' | 'key' | 'codec'> & { version?: number } = {}
+  ): HashOrbit<TNode> {
+    return HashOrbit.rebuild(log, options);
+  }
+
+  /**
+   * Rebuilds a ring from an operation log, as replay() does
+   * @param log - A log from getLog()
+   * @param options - Version, hash function, key extractor and codec
+   * @returns A new ring at the requested version
+   * @throws Error if the version is not in the log, the hash does not match,
+   * or a key extractor is given without a codec
+   * @private
+   */
+  private static rebuild<TNode>(
+    log: RingLog,
+    options: Pick<HashOrbitOptions<TNode>, 'hash' | 'key' | 'codec'> & { version?: number }
+  ): HashOrbit<TNode> {
+    const last = log.operations[log.operations.length - 1]?.version ?? log.baseVersion;
+    const version = options.version ?? last;
+    if (!Number.isInteger(version) || version < log.baseVersion || version > last) {
+      throw new Error(
+        `Version ${version} is not in the log (versions ${log.baseVersion} to ${last})`
+      );
+    }
+
+    const { hash, key, codec } = options;
+    const ring = HashOrbit.restore(log.base, { hash, key, codec });
+    ring.currentVersion = log.baseVersion;
+
+    const applied = log.operations.filter((operation) => operation.version <= version);
+    for (let i = 0; i < applied.length;) {
+      const group = applied[i]!.version;
+      ring.batch(() => {
+        for (; i < applied.length && applied[i]!.version === group; i++) {
+          const { type, node, weight, zone, rack, metadata } = applied[i]!;
+          if (type === 'add') ring.add(decodeNode(node, metadata, codec), { weight, zone, rack });
+          else if (type === 'remove') ring.remove(node);
+          else ring.setWeight(node, weight!);
+        }
+      });
+      // Without a codec, a replaced node object changes nothing here
+      ring.currentVersion = group;
+    }
+
+    ring.operationLog = {
+      baseVersion: log.baseVersion,
+      base: structuredCopy(log.base),
+      operations: applied.map((operation) => ({ ...operation })),
+    };
+    return ring;
+  }
+
+  /**
+   * Throws if the ring is a read-only snapshot
+   * @private
+   */
+  private assertMutable(): void {
+    if (this.frozen) {
+      throw new Error('Ring snapshots are read-only; use with() or without() for a modified ring');
+    }
+  }
+
+  /**
+   * Copies the ring's configuration and topology into a new ring
+   * Positions, owners and per-node virtual nodes are never mutated in place,
+   * so they are shared; only the per-node maps are copied. Live loads,
+   * listeners and the operation log are not copied.
+   * @returns A new mutable ring with the same version
+   * @throws Error if called during a batch
+   * @private
+   */
+  private clone(): HashOrbit<TNode> {
+    if (this.batchDepth > 0) {
+      throw new Error('Cannot copy a ring during a batch');
+    }
+
+    const ring = new HashOrbit<TNode>({
+      replicas: this.replicas,
+      profile: this.profileName,
+      hash: this.profile ? undefined : this.hash,
+      capacityFactor: this.capacityFactor,
+      probes: this.probes,
+      key: this.key,
+      codec: this.codec,
+    });
+    for (const [node, weight] of this.weights) ring.weights.set(node, weight);
+    for (const [node, member] of this.members) ring.members.set(node, member);
+    for (const [node, location] of this.locations) ring.locations.set(node, location);
+    for (const node of this.down) ring.down.add(node);
+    for (const [node, positions] of this.virtualNodes) ring.virtualNodes.set(node, positions);
+    for (const [node, slot] of this.nodeSlots) ring.nodeSlots.set(node, slot);
+    ring.nodeTable.push(...this.nodeTable);
+    ring.freeSlots.push(...this.freeSlots);
+    ring.positions = this.positions;
+    ring.owners = this.owners;
+    ring.currentVersion = this.currentVersion;
+    return ring;
+  }
+
+  /**
+   * Gets the ring's version
+   * Starts at 0 and increases by one with every applied change (a batch
+   * counts as one change).
+   * @returns The version
+   */
+  get version(): number {
+    return this.currentVersion;
+  }
+
+  /**
+   * Takes an immutable snapshot of the ring
+   * The snapshot shares the ring's position arrays, and the same snapshot
+   * is returned until the ring changes, so taking one per request is cheap.
+   * Snapshots do not carry live loads from bounded loads mode.
+   * @returns A read-only view of the current topology and version
+   * @throws Error if called during a batch
+   */
+  snapshot(): RingSnapshot<TNode> {
+    if (this.frozen) return this;
+    if (!this.cachedSnapshot) {
+      this.cachedSnapshot = this.clone();
+      this.cachedSnapshot.frozen = true;
+    }
+    return this.cachedSnapshot;
+  }
+
+  /**
+   * Creates a new ring with a node added, without changing this ring
+   * @param node - The node to add
+   * @param options - Per-node options such as weight
+   * @returns A new ring one version ahead (unless the node was already present with that weight)
+   * @throws Error if the node identifier or weight is invalid, or called during a batch
+   */
+  with(node: TNode, options: AddOptions = {}): HashOrbit<TNode> {
+    const ring = this.clone();
+    ring.add(node, options);
+    return ring;
+  }
+
+  /**
+   * Creates a new ring with a node removed, without changing this ring
+   * @param node - The node or identifier to remove
+   * @returns A new ring one version ahead (unless the node was absent)
+   * @throws Error if the node identifier is invalid or called during a batch
+   */
+  without(node: TNode | string): HashOrbit<TNode> {
+    const ring = this.clone();
+    ring.remove(node);
+    return ring;
+  }
+
+  /**
+   * Adds a node to the consistent hash ring
+   * Creates virtual nodes (replicas) for better key distribution.
+   * Adding a node that is already present updates its weight, zone and
+   * rack, and replaces the stored object for node objects with the same
+   * identifier. Replacing the object or changing the zone or rack is a new
+   * ring version, logged like an add, since lookups return something
+   * different, but it moves no keys.
+   * @param node - The node to add
+   * @param options - Per-node options such as weight, zone and rack
+   * @throws Error if the node identifier, weight, zone or rack is invalid, or the ring is a snapshot
+   */
+  add(node: TNode, options: AddOptions = {}): void {
+    this.assertMutable();
+    const id = this.idOf(node);
+    validateIdentifier(id, 'Node identifier');
+    const weight = options.weight ?? this.weights.get(id) ?? 1;
+    validateWeight(weight);
+    validateLocation(options);
+
+    const current = this.weights.has(id) ? this.locations.get(id) : undefined;
+    const location: NodeLocation = {};
+    const zone = options.zone ?? current?.zone;
+    const rack = options.rack ?? current?.rack;
+    if (zone !== undefined) location.zone = zone;
+    if (rack !== undefined) location.rack = rack;
+
+    if (this.weights.has(id)) {
+      this.batch(() => {
+        const replaced = this.members.get(id) !== node;
+        if (replaced || zone !== current?.zone || rack !== current?.rack) {
+          this.members.set(id, node);
+          this.setLocation(id, location);
+          this.record('add', id, weight);
+          this.syncVirtualNodes(id);
+        }
+        this.setWeight(id, weight);
+      });
+      return;
+    }
+
+    this.weights.set(id, weight);
+    this.members.set(id, node);
+    this.setLocation(id, location);
+    this.queueEvent('nodeAdded', { node, weight });
+    this.record('add', id, weight);
+    this.syncVirtualNodes(id);
+  }
+
+  /**
+   * Stores the zone and rack of a node
+   * @param id - The node identifier
+   * @param location - Zone and rack, either of which may be absent
+   * @private
+   */
+  private setLocation(id: string, location: NodeLocation): void {
+    if (location.zone === undefined && location.rack === undefined) {
+      this.locations.delete(id);
+    } else {
+      this.locations.set(id, location);
+    }
+    this.domainIndex.clear();
+  }
+
+  /**
+   * Gets the zone and rack a node was added with
+   * @param node - The node or identifier
+   * @returns The node's zone and rack (empty if it has neither), or
+   * undefined if the node is not in the ring
+   */
+  getLocation(node: TNode | string): NodeLocation | undefined {
+    const id = this.idOf(node);
+    if (!this.weights.has(id)) return undefined;
+    return { ...this.locations.get(id) };
+  }
+
+  /**
+   * Adds several nodes, sorting the ring positions once
+   * All identifiers are validated before any node is added.
+   * @param nodes - The nodes to add
+   * @param options - Per-node options applied to every node, such as weight or zone
+   * @throws Error if a node identifier, the weight, zone or rack is invalid
+   */
+  addAll(nodes: Iterable<TNode>, options: AddOptions = {}): void {
+    const list = [...nodes];
+    list.forEach((node) => validateIdentifier(this.idOf(node), 'Node identifier'));
+    if (options.weight !== undefined) validateWeight(options.weight);
+    validateLocation(options);
+
+    this.batch(() => {
+      for (const node of list) this.add(node, options);
+    });
+  }
+
+  /**
+   * Removes several nodes, sorting the ring positions once
+   * All identifiers are validated before any node is removed.
+   * @param nodes - The nodes or identifiers to remove
+   * @throws Error if a node identifier is invalid
+   */
+  removeAll(nodes: Iterable<TNode | string>): void {
+    const list = [...nodes];
+    list.forEach((node) => validateIdentifier(this.idOf(node), 'Node identifier'));
+
+    this.batch(() => {
+      for (const node of list) this.remove(node);
+    });
+  }
+
+  /**
+   * Applies many membership and weight changes with a single re-sort
+   * add(), remove() and setWeight() calls inside fn take effect on the ring
+   * positions when the outermost batch ends, so lookups made inside fn still
+   * use the layout from before the batch. Changes made before fn throws are
+   * applied before the error is rethrown.
+   * @param fn - Callback making the changes
+   */
+  batch(fn: (ring: this) => void): void {
+    this.batchDepth++;
+    try {
+      fn(this);
+    } finally {
+      if (--this.batchDepth === 0 && this.pendingNodes.size > 0) {
+        const changed = [...this.pendingNodes];
+        this.pendingNodes.clear();
+        this.applyVirtualNodes(changed);
+      }
+    }
+  }
+
+  /**
+   * Removes a node from the consistent hash ring
+   * Cleans up all virtual nodes for the given physical node
+   * @param node - The node or identifier to remove
+   * @throws Error if the node identifier is invalid or the ring is a snapshot
+   */
+  remove(node: TNode | string): void {
+    this.assertMutable();
+    const id = this.idOf(node);
+    validateIdentifier(id, 'Node identifier');
+    const weight = this.weights.get(id);
+    if (weight === undefined) return;
+
+    // The node object is dropped with its positions, so lookups in a batch still resolve it
+    this.weights.delete(id);
+    this.queueEvent('nodeRemoved', { node: this.members.get(id)!, weight });
+    this.record('remove', id);
+    this.syncVirtualNodes(id);
+    this.dropLoad(id);
+
+    // Health is forgotten at once, so re-adding the node in a batch finds it up
+    if (this.down.delete(id)) this.domainIndex.clear();
+  }
+
+  /**
+   * Drops the load held on a node
+   * Keys left without load are placed afresh on their next acquire().
+   * @param id - The node identifier
+   * @private
+   */
+  private dropLoad(id: string): void {
+    this.totalLoad -= this.loads.get(id) ?? 0;
+    this.loads.delete(id);
+    for (const [key, units] of this.assignments) {
+      const kept = units.filter((node) => node !== id);
+      if (kept.length === 0) this.assignments.delete(key);
+      else if (kept.length < units.length) this.assignments.set(key, kept);
+    }
+  }
+
+  /**
+   * Marks a node as down without removing it
+   * The node keeps its positions, but get(), getN() and ownerOf() walk
+   * clockwise past it, so only its keys fail over, each to the next node
+   * that is up. Health is not a membership change: the version does not
+   * change, and health is neither logged nor serialized. With bounded
+   * loads, the node's load is dropped as if it had been removed.
+   * @param node - The node or identifier
+   * @throws Error if the node is not in the ring or the ring is a snapshot
+   */
+  markDown(node: TNode | string): void {
+    this.assertMutable();
+    const id = this.idOf(node);
+    if (!this.weights.has(id)) {
+      throw new Error(`Node "${id}" is not in the ring`);
+    }
+    if (this.down.has(id)) return;
+
+    const before = this.watchingChanges() ? this.upLayout() : undefined;
+    this.down.add(id);
+    this.cachedSnapshot = undefined;
+    this.domainIndex.clear();
+    this.dropLoad(id);
+    this.emit('nodeDown', { node: this.members.get(id)! });
+    if (before) this.emitChanged(before);
+  }
+
+  /**
+   * Marks a node that was marked down as up again
+   * Keys that failed over return to the node, since its positions never
+   * left the ring.
+   * @param node - The node or identifier
+   * @throws Error if the node is not in the ring or the ring is a snapshot
+   */
+  markUp(node: TNode | string): void {
+    this.assertMutable();
+    const id = this.idOf(node);
+    if (!this.weights.has(id)) {
+      throw new Error(`Node "${id}" is not in the ring`);
+    }
+    if (!this.down.has(id)) return;
+
+    const before = this.watchingChanges() ? this.upLayout() : undefined;
+    this.down.delete(id);
+    this.cachedSnapshot = undefined;
+    this.domainIndex.clear();
+    this.emit('nodeUp', { node: this.members.get(id)! });
+    if (before) this.emitChanged(before);
+  }
+
+  /**
+   * Checks whether a node is marked down
+   * @param node - The node or identifier
+   * @returns True if the node is in the ring and marked down
+   */
+  isDown(node: TNode | string): boolean {
+    const id = this.idOf(node);
+    return this.weights.has(id) && this.down.has(id);
+  }
+
+  /**
+   * Changes the weight of a node in place
+   * Only the virtual nodes beyond the smaller of the old and new counts are
+   * added or removed, so keys move only to or from this node
+   * @param node - The node or identifier
+   * @param weight - The new weight
+   * @throws Error if the node is not in the ring, the weight is invalid or the ring is a snapshot
+   */
+  setWeight(node: TNode | string, weight: number): void {
+    this.assertMutable();
+    const id = this.idOf(node);
+    validateIdentifier(id, 'Node identifier');
+    validateWeight(weight);
+    const previous = this.weights.get(id);
+    if (previous === undefined) {
+      throw new Error(`Node "${id}" is not in the ring`);
+    }
+    if (previous === weight) return;
+
+    this.weights.set(id, weight);
+    this.queueEvent('weightChanged', {
+      node: this.members.get(id)!,
+      weight,
+      previousWeight: previous,
+    });
+    this.record('setWeight', id, weight);
+    this.syncVirtualNodes(id);
+  }
+
+  /**
+   * Gets the weight of a node
+   * @param node - The node or identifier
+   * @returns The node weight, or undefined if the node is not in the ring
+   */
+  getWeight(node: TNode | string): number | undefined {
+    return this.weights.get(this.idOf(node));
+  }
+
+  /**
+   * Binary search to find the first position >= target (lower bound)
+   * @param target - The hash position to search for
+   * @returns Index of the first element >= target, or positions.length if not found
+   * @private
+   */
+  private binarySearch(target: number): number {
+    return lowerBound(this.positions, target);
+  }
+
+  /**
+   * Finds the ring index a key is assigned to
+   * @param key - The key to look up
+   * @returns Index into positions (the ring must not be empty)
+   * @private
+   */
+  private lookupIndex(key: string): number {
+    return this.probeIndex(this.hash(key));
+  }
+
+  /**
+   * Finds the ring index a key hash is assigned to
+   * Normally the first position at or after the hash, wrapping to the first
+   * position. In multi-probe mode further probes are derived from the hash
+   * with the murmur3 finalizer, and the probe with the smallest clockwise
+   * distance to a position wins, ties going to the earlier probe.
+   * @param position - The key's 32-bit hash
+   * @returns Index into positions (the ring must not be empty)
+   * @private
+   */
+  private probeIndex(position: number): number {
+    if (this.probes === undefined || this.probes === 1) {
+      const idx = this.binarySearch(position);
+      return idx >= this.positions.length ? 0 : idx;
+    }
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < this.probes; i++) {
+      const probe = i === 0 ? position : mix32((position + Math.imul(i, 0x9e3779b9)) | 0);
+      let idx = this.binarySearch(probe);
+      if (idx >= this.positions.length) idx = 0;
+
+      // Clockwise distance, wrapping around the 32-bit ring
+      const distance = (this.positions[idx]! - probe + 0x100000000) % 0x100000000;
+      if (distance < bestDistance) {
+        best = idx;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Hashes a key to its position in the 32-bit keyspace
+   * This is the value compared against the ranges returned by diff(). In
+   * multi-probe mode it is the key's first probe.
+   * @param key - The key to hash
+   * @returns Unsigned 32-bit position
+   * @throws Error if the key is invalid
+   */
+  hashKey(key: string): number {
+    validateIdentifier(key, 'Key');
+    return this.hash(key);
+  }
+
+  /**
+   * Gets the node responsible for a given key
+   * In multi-probe mode the closest of the key's probes decides the node.
+   * With bounded loads, keys holding load return their node and other keys
+   * return the first node clockwise that is below capacity. Nodes marked
+   * down are skipped, so their keys go to the next node clockwise.
+   * @param key - The key to look up
+   * @returns The node, or undefined if the ring is empty or every node is down
+   * @throws Error if the key is invalid
+   */
+  get(key: string): TNode | undefined {
+    const id = this.ownerId(key);
+    return id === undefined ? undefined : this.members.get(id);
+  }
+
+  /**
+   * Finds the identifier of the node responsible for a key, as get() does
+   * @param key - The key to look up
+   * @returns The node identifier, or undefined if the ring is empty or every node is down
+   * @throws Error if the key is invalid
+   * @private
+   */
+  private ownerId(key: string): string | undefined {
+    validateIdentifier(key, 'Key');
+    if (this.positions.length === 0) return undefined;
+    if (this.capacityFactor !== undefined) {
+      return this.assignments.get(key)?.[0] ?? this.boundedOwner(key);
+    }
+
+    return this.upNodeFrom(this.lookupIndex(key));
+  }
+
+  /**
+   * Gets the load capacity of a node for the next unit of load
+   * Capacity is ceil(c × average load) scaled by the node's share of the
+   * total weight, counting the load about to be placed. The capacities sum
+   * to more than the current load, so some node always has room.
+   * @param node - The node identifier
+   * @param totalWeight - Sum of the weights of the nodes that can take load
+   * @returns Maximum load the node may hold after the next placement
+   * @private
+   */
+  private capacityOf(node: string, totalWeight: number): number {
+    const share = this.weights.get(node)! / totalWeight;
+    return Math.ceil(this.capacityFactor! * (this.totalLoad + 1) * share);
+  }
+
+  /**
+   * Walks clockwise from a key's assigned position to the first node below capacity
+   * Only nodes on the current layout that are up and still in the ring are
+   * offered load and count towards capacity. Inside a batch the layout
+   * predates the batch, so nodes added in it are not reachable yet and
+   * nodes removed in it are skipped rather than given load they would lose.
+   * @param key - The key to place
+   * @param home - Node to keep the load on while it has room, if any
+   * @returns The node identifier, or undefined if no node can take load
+   * @private
+   */
+  private boundedOwner(key: string, home?: string): string | undefined {
+    const skipped = (node: string) => this.down.has(node) || !this.weights.has(node);
+    let totalWeight = 0;
+    for (const node of this.nodeSlots.keys()) {
+      if (!skipped(node)) totalWeight += this.weights.get(node)!;
+    }
+    if (totalWeight === 0) return undefined;
+    if (home !== undefined && !skipped(home)) {
+      if ((this.loads.get(home) ?? 0) < this.capacityOf(home, totalWeight)) return home;
+    }
+
+    let idx = this.lookupIndex(key);
+    const checked = new Set<string>();
+    for (let i = 0; i < this.positions.length; i++, idx++) {
+      if (idx >= this.positions.length) idx = 0;
+
+      const node = this.nodeAt(idx);
+      if (checked.has(node) || skipped(node)) continue;
+      if ((this.loads.get(node) ?? 0) < this.capacityOf(node, totalWeight)) return node;
+      checked.add(node);
+    }
+    // Unreachable: capacities always leave room on at least one node
+    throw new Error('No node has capacity for the key');
+  }
+
+  /**
+   * Places one unit of load for a key (bounded loads mode)
+   * A key that already holds load stays on its node, so repeated acquires
+   * (e.g. several connections for one session) stack on the same node
+   * while it has room; once it is full, the extra unit goes clockwise to
+   * the next node with room, like a new key would.
+   * @param key - The key to place
+   * @returns The node now holding the load, or undefined if the ring is empty or every node is down
+   * @throws Error if bounded loads are not enabled, the key is invalid or the ring is a snapshot
+   */
+  acquire(key: string): TNode | undefined {
+    this.assertMutable();
+    if (this.capacityFactor === undefined) {
+      throw new Error('Bounded loads are not enabled; set the capacityFactor option');
+    }
+    validateIdentifier(key, 'Key');
+    if (this.positions.length === 0) return undefined;
+    const units = this.assignments.get(key);
+    const node = this.boundedOwner(key, units?.[0]);
+    if (node === undefined) return undefined;
+
+    if (units) {
+      units.push(node);
+    } else {
+      this.assignments.set(key, [node]);
+    }
+    this.loads.set(node, (this.loads.get(node) ?? 0) + 1);
+    this.totalLoad++;
+    return this.members.get(node);
+  }
+
+  /**
+   * Releases one unit of load placed for a key
+   * The most recently placed unit is released first, so a key's overflow
+   * leaves before its own node's load. Once a key holds no load it is
+   * placed afresh by the next acquire().
+   * Releasing a key that holds no load is a no-op.
+   * @param key - The key to release
+   * @throws Error if bounded loads are not enabled, the key is invalid or the ring is a snapshot
+   */
+  release(key: string): void {
+    this.assertMutable();
+    if (this.capacityFactor === undefined) {
+      throw new Error('Bounded loads are not enabled; set the capacityFactor option');
+    }
+    validateIdentifier(key, 'Key');
+    const units = this.assignments.get(key);
+    if (!units) return;
+
+    const node = units.pop()!;
+    if (units.length === 0) this.assignments.delete(key);
+    this.loads.set(node, this.loads.get(node)! - 1);
+    this.totalLoad--;
+  }
+
+  /**
+   * Gets the load placed on a node with acquire()
+   * @param node - The node or identifier
+   * @returns The node's load, or undefined if the node is not in the ring
+   */
+  getLoad(node: TNode | string): number | undefined {
+    const id = this.idOf(node);
+    if (!this.weights.has(id)) return undefined;
+    return this.loads.get(id) ?? 0;
+  }
+
+  /**
+   * Gets N unique nodes responsible for a given key (for replication)
+   * Nodes are taken clockwise from the key. When nodes have zones, a node
+   * in a zone that already holds a replica is skipped until every zone
+   * holds one, so replicas spread over zones before any zone repeats.
+   * Per-zone counts instead take the given number of replicas from each
+   * zone, spread over the zone's racks the same way (as Cassandra's
+   * NetworkTopologyStrategy does). Nodes marked down are skipped. Loads are
+   * not taken into account, even with bounded loads enabled.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return, or replicas per zone
+   * @returns Array of nodes (up to count unique nodes, or up to each zone's
+   * count from that zone)
+   * @throws Error if the key or a per-zone count is invalid
+   */
+  getN(key: string, count: number | Record<string, number>): TNode[] {
+    validateIdentifier(key, 'Key');
+    return this.replicaIds(key, count, this.down).map((id) => this.members.get(id)!);
+  }
+
+  /**
+   * Gets a Dynamo-style preference list for a key
+   * The list holds the replicas getN() returns. Where one of the key's
+   * replicas is down, a node further clockwise stands in for it: its entry
+   * carries the down node as a hint, so writes it accepts (sloppy quorum)
+   * can be handed back once the node is marked up (hinted handoff). Stand-ins
+   * are matched to down replicas in ring order; with per-zone counts, only
+   * to down replicas of their own zone. Without down nodes no entry has a
+   * hint.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return, or replicas per zone
+   * @returns The healthy replicas in getN() order, stand-ins with a hint
+   * @throws Error if the key or a per-zone count is invalid
+   */
+  getPreferenceList(key: string, count: number | Record<string, number>): PreferenceEntry<TNode>[] {
+    validateIdentifier(key, 'Key');
+    const replicas = this.replicaIds(key, count, this.down);
+    const owners = new Set(this.down.size > 0 ? this.replicaIds(key, count, NO_NODES) : replicas);
+    const missing = [...owners].filter((id) => this.down.has(id));
+    // Per-zone placement fills each zone separately, so hints stay in the zone
+    const group = (id: string) =>
+      typeof count === 'number' ? undefined : this.locations.get(id)?.zone;
+
+    return replicas.map((id) => {
+      const entry: PreferenceEntry<TNode> = { node: this.members.get(id)! };
+      if (!owners.has(id)) {
+        const match = missing.findIndex((down) => group(down) === group(id));
+        if (match >= 0) entry.hint = this.members.get(missing.splice(match, 1)[0]!)!;
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Picks the replicas of a key, as getN() does
+   * @param key - The key to look up (already validated)
+   * @param count - Number of unique nodes to return, or replicas per zone
+   * @param skip - Nodes to pass over, such as the nodes marked down
+   * @returns Node identifiers in replica order
+   * @throws Error if a per-zone count is invalid
+   * @private
+   */
+  private replicaIds(
+    key: string,
+    count: number | Record<string, number>,
+    skip: ReadonlySet<string>
+  ): string[] {
+    if (typeof count !== 'number') {
+      const needed = new Map(Object.entries(count));
+      for (const replicas of needed.values()) {
+        if (!(Number.isInteger(replicas) && replicas >= 0)) {
+          throw new Error('Replica counts must be non-negative integers');
+        }
+      }
+      const { racks } = this.domains(skip);
+      return this.placeReplicas(
+        key,
+        needed,
+        (id) => this.locations.get(id)?.zone,
+        (id) => this.locations.get(id)?.rack ?? soleDomain(id),
+        racks,
+        skip
+      );
+    }
+    if (this.positions.length === 0 || count <= 0) return [];
+    if (this.locations.size > 0) {
+      return this.placeReplicas(
+        key,
+        new Map([['', count]]),
+        () => '',
+        (id) => this.locations.get(id)?.zone ?? soleDomain(id),
+        new Map([['', this.domains(skip).zones]]),
+        skip
+      );
+    }
+
+    const result: string[] = [];
+    const seen = new Set<string>();
+    let idx = this.lookupIndex(key);
+
+    for (let i = 0; i < this.positions.length && result.length < count; i++) {
+      if (idx >= this.positions.length) idx = 0;
+
+      const node = this.nodeAt(idx);
+      if (!seen.has(node)) {
+        seen.add(node);
+        if (!skip.has(node)) result.push(node);
+      }
+      idx++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Walks clockwise from a key, yielding each node once
+   * @param key - The key to start from
+   * @param skip - Nodes not to yield
+   * @returns Node identifiers in ring order
+   * @private
+   */
+  private *walk(key: string, skip: ReadonlySet<string>): Generator<string> {
+    if (this.positions.length === 0) return;
+    const seen = new Set<string>();
+    let idx = this.lookupIndex(key);
+
+    for (let i = 0; i < this.positions.length && seen.size < this.nodeSlots.size; i++, idx++) {
+      if (idx >= this.positions.length) idx = 0;
+      const node = this.nodeAt(idx);
+      if (!seen.has(node)) {
+        seen.add(node);
+        if (!skip.has(node)) yield node;
+      }
+    }
+  }
+
+  /**
+   * Picks replicas clockwise from a key, spreading each group over its domains
+   * Groups are the units counts are given for, and domains the failure
+   * domains within a group. A node in a domain its group already holds is
+   * skipped until the group has seen every domain; skipped nodes then fill
+   * the group's remaining replicas in ring order.
+   * @param key - The key to place
+   * @param needed - Replicas wanted per group
+   * @param groupOf - Group of a node (undefined if it has none)
+   * @param domainOf - Domain of a node within its group
+   * @param domains - Number of domains per group
+   * @param skip - Nodes to pass over
+   * @returns Node identifiers in the order they were picked
+   * @private
+   */
+  private placeReplicas(
+    key: string,
+    needed: Map<string, number>,
+    groupOf: (id: string) => string | undefined,
+    domainOf: (id: string) => string,
+    domains: Map<string, number>,
+    skip: ReadonlySet<string>
+  ): string[] {
+    const result: string[] = [];
+    const taken = new Map<string, number>();
+    const seen = new Map<string, Set<string>>();
+    const skipped = new Map<string, string[]>();
+    let missing = 0;
+    for (const replicas of needed.values()) missing += replicas;
+
+    const open = (group: string) => (taken.get(group) ?? 0) < needed.get(group)!;
+    const take = (group: string, id: string) => {
+      result.push(id);
+      taken.set(group, (taken.get(group) ?? 0) + 1);
+      missing--;
+    };
+
+    for (const id of this.walk(key, skip)) {
+      if (missing === 0) break;
+      const group = groupOf(id);
+      if (group === undefined || !needed.has(group) || !open(group)) continue;
+
+      let held = seen.get(group);
+      if (!held) {
+        held = new Set();
+        seen.set(group, held);
+      }
+      const domain = domainOf(id);
+      if (held.size === domains.get(group)) {
+        take(group, id);
+      } else if (held.has(domain)) {
+        const queue = skipped.get(group);
+        if (queue) queue.push(id);
+        else skipped.set(group, [id]);
+      } else {
+        take(group, id);
+        held.add(domain);
+        // Every domain now holds a replica, so skipped nodes are next in line
+        if (held.size === domains.get(group)) {
+          for (const next of skipped.get(group) ?? []) {
+            if (!open(group)) break;
+            take(group, next);
+          }
+          skipped.delete(group);
+        }
+      }
+    }
+
+    // The whole ring was walked: fill what is left from skipped nodes
+    for (const [group, ids] of skipped) {
+      for (const id of ids) {
+        if (!open(group)) break;
+        take(group, id);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Counts the zones, and racks per zone, of the nodes on the ring
+   * @param skip - Nodes not to count
+   * @returns The domain counts, cached per set of skipped nodes
+   * @private
+   */
+  private domains(skip: ReadonlySet<string>): DomainIndex {
+    let index = this.domainIndex.get(skip);
+    if (!index) {
+      const racks = new Map<string, Set<string>>();
+      let zones = 0;
+      for (const id of this.nodeSlots.keys()) {
+        if (skip.has(id)) continue;
+        const location = this.locations.get(id);
+        if (location?.zone === undefined) {
+          zones++;
+          continue;
+        }
+        let zoneRacks = racks.get(location.zone);
+        if (!zoneRacks) {
+          zoneRacks = new Set();
+          racks.set(location.zone, zoneRacks);
+          zones++;
+        }
+        zoneRacks.add(location.rack ?? soleDomain(id));
+      }
+      index = {
+        zones,
+        racks: new Map([...racks].map(([zone, set]) => [zone, set.size])),
+      };
+      this.domainIndex.set(skip, index);
+    }
+    return index;
+  }
+
+  /**
+   * Computes which ranges of the keyspace changed owner between two rings
+   * A key moved if and only if its hash falls in one of the returned ranges,
+   * so caches can invalidate just those ranges after a topology change.
+   * Ownership follows the ring positions; live loads in bounded loads mode
+   * are not taken into account. Nodes marked down are left out, so their
+   * keys count as owned by the nodes they fail over to. Keep a copy of the
+   * ring from before the change, e.g. `HashOrbit.fromJSON(ring.toJSON())`.
+   * Ranges identify nodes by identifier (see getNode()).
+   * @param before - The ring before the change
+   * @param after - The ring after the change
+   * @returns Moved ranges and the fraction of the keyspace they cover
+   * @throws Error if the rings use different hashes or multi-probe mode
+   */
+  static diff<A, B>(before: HashOrbit<A>, after: HashOrbit<B>): RingDiff {
+    if (before.hashName !== after.hashName) {
+      throw new Error('Cannot diff rings with different hash functions');
+    }
+    if (before.probes !== undefined || after.probes !== undefined) {
+      throw new Error('Cannot diff rings in multi-probe mode');
+    }
+
+    return diffLayouts(before.upLayout(), after.upLayout());
+  }
+
+  /**
+   * Computes exact keyspace ownership from the ring positions
+   * Each position owns the hashes after the previous position up to and
+   * including itself, so ownership is measured without sampling keys.
+   * Ownership follows the ring positions; live loads in bounded loads mode
+   * are not taken into account.
+   * @param options - Number of largest arcs to report (default 10)
+   * @returns Per-node ownership, balance figures and the largest arcs
+   * @throws Error if the arc count is invalid, or in multi-probe mode where
+   * ownership does not follow arcs
+   */
+  stats(options: { arcs?: number } = {}): RingStats<TNode> {
+    if (this.probes !== undefined) {
+      throw new Error('Cannot compute stats in multi-probe mode');
+    }
+    const arcCount = options.arcs ?? 10;
+    if (!(Number.isInteger(arcCount) && arcCount >= 0)) {
+      throw new Error('Arcs must be a non-negative integer');
+    }
+    const owned = new Map<string, number>();
+    const largestArcs: RingArc<TNode>[] = [];
+
+    const { positions } = this;
+    for (let i = 0; i < positions.length; i++) {
+      const end = positions[i]!;
+      // The first position also owns the hashes past the last position
+      const previous = i === 0 ? positions[positions.length - 1]! - 0x100000000 : positions[i - 1]!;
+      const length = end - previous;
+      const node = this.nodeAt(i);
+      owned.set(node, (owned.get(node) ?? 0) + length);
+
+      // Keep the longest arcs seen so far, longest first
+      const fraction = length / 0x100000000;
+      const shortest = largestArcs[arcCount - 1];
+      if (arcCount > 0 && (!shortest || fraction > shortest.fraction)) {
+        const arc = { start: (previous + 1) >>> 0, end, node: this.members.get(node)!, fraction };
+        let at = largestArcs.length;
+        while (at > 0 && largestArcs[at - 1]!.fraction < arc.fraction) at--;
+        largestArcs.splice(at, 0, arc);
+        if (largestArcs.length > arcCount) largestArcs.pop();
+      }
+    }
+
+    let totalWeight = 0;
+    for (const weight of this.weights.values()) totalWeight += weight;
+    const nodes: NodeStats<TNode>[] = [...this.weights].map(([id, weight]) => {
+      const node = this.members.get(id)!;
+      const ownership = (owned.get(id) ?? 0) / 0x100000000;
+      const expected = weight / totalWeight;
+      return {
+        node,
+        weight,
+        virtualNodes: this.virtualNodes.get(id)?.length ?? 0,
+        ownership,
+        expected,
+        deviation: ownership / expected - 1,
+      };
+    });
+
+    // Loops rather than Math.max(...) so large clusters do not overflow the stack
+    const mean = nodes.length === 0 ? 0 : 1 / nodes.length;
+    let min = nodes.length === 0 ? 0 : 1;
+    let max = 0;
+    let squares = 0;
+    let weightedPeak = 0;
+    let maxDeviation = 0;
+    for (const stats of nodes) {
+      min = Math.min(min, stats.ownership);
+      max = Math.max(max, stats.ownership);
+      squares += (stats.ownership - mean) ** 2;
+      weightedPeak = Math.max(weightedPeak, stats.ownership / stats.expected);
+      maxDeviation = Math.max(maxDeviation, Math.abs(stats.deviation));
+    }
+
+    return {
+      nodes,
+      positions: positions.length,
+      min,
+      max,
+      mean,
+      stddev: nodes.length === 0 ? 0 : Math.sqrt(squares / nodes.length),
+      peakToMean: nodes.length === 0 ? 0 : max / mean,
+      weightedPeakToMean: weightedPeak,
+      maxDeviation,
+      largestArcs,
+    };
+  }
+
+  /**
+   * Checks whether a node is in the ring
+   * @param node - The node or identifier
+   * @returns True if the node has been added and not removed
+   */
+  has(node: TNode | string): boolean {
+    return this.weights.has(this.idOf(node));
+  }
+
+  /**
+   * Gets the node owning a hash in the 32-bit keyspace
+   * Agrees with get() for any key whose hashKey() is the position, skipping
+   * nodes marked down. Loads are not taken into account, even with bounded
+   * loads enabled.
+   * @param position - Unsigned 32-bit hash
+   * @returns The node, or undefined if the ring is empty or every node is down
+   * @throws Error if the position is not an unsigned 32-bit integer
+   */
+  ownerOf(position: number): TNode | undefined {
+    if (!(Number.isInteger(position) && position >= 0 && position <= 0xffffffff)) {
+      throw new Error('Position must be an unsigned 32-bit integer');
+    }
+    if (this.positions.length === 0) return undefined;
+    const id = this.upNodeFrom(this.probeIndex(position));
+    return id === undefined ? undefined : this.members.get(id);
+  }
+
+  /**
+   * Finds the ring indices a node owns, in ring order
+   * A virtual node colliding with one of a node with a lower identifier is
+   * not on the ring, so it is skipped, and virtual nodes of the node itself
+   * sharing a position count once.
+   * @param node - The node identifier
+   * @returns Sorted indices into positions
+   * @private
+   */
+  private ownedIndices(node: string): number[] {
+    const own = this.virtualNodes.get(node);
+    if (!own) return [];
+
+    const indices: number[] = [];
+    for (const position of own.slice().sort()) {
+      const idx = this.binarySearch(position);
+      if (this.nodeAt(idx) === node && indices[indices.length - 1] !== idx) indices.push(idx);
+    }
+    return indices;
+  }
+
+  /**
+   * Gets the ring positions of a node's virtual nodes
+   * @param node - The node or identifier
+   * @returns Positions the node owns on the ring, ascending (empty if the
+   * node is not in the ring)
+   */
+  positionsOf(node: TNode | string): number[] {
+    return this.ownedIndices(this.idOf(node)).map((idx) => this.positions[idx]!);
+  }
+
+  /**
+   * Gets the arcs of the keyspace a node owns
+   * Each position owns the hashes after the previous position up to and
+   * including itself. Adjacent arcs are merged, and the arc wrapping past
+   * 2^32 is split in two so every range has start < end. Loads are not
+   * taken into account, even with bounded loads enabled.
+   * @param node - The node or identifier
+   * @returns Half-open [start, end) ranges in ascending order, where end may
+   * be 2^32 (empty if the node is not in the ring)
+   * @throws Error in multi-probe mode, where ownership does not follow arcs
+   */
+  rangesOf(node: TNode | string): RingRange[] {
+    if (this.probes !== undefined) {
+      throw new Error('Cannot compute ranges in multi-probe mode');
+    }
+    const { positions } = this;
+    const ranges: RingRange[] = [];
+    let wrapped: RingRange | undefined;
+
+    const append = (start: number, end: number) => {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === start) last.end = end;
+      else ranges.push({ start, end });
+    };
+
+    for (const idx of this.ownedIndices(this.idOf(node))) {
+      const end = positions[idx]! + 1;
+      if (idx > 0) {
+        append(positions[idx - 1]! + 1, end);
+        continue;
+      }
+      // The first position also owns the hashes past the last position
+      append(0, end);
+      const last = positions[positions.length - 1]!;
+      if (last !== 0xffffffff) wrapped = { start: last + 1, end: 0x100000000 };
+    }
+    if (wrapped) append(wrapped.start, wrapped.end);
+
+    return ranges;
+  }
+
+  /**
+   * Iterates over the virtual nodes in ring order
+   * Iteration follows the layout the ring had when it started.
+   * @returns Iterator of { position, node } pairs by ascending position
+   */
+  *[Symbol.iterator](): IterableIterator<VirtualNode<TNode>> {
+    const { positions, owners } = this;
+    const nodes = this.nodeTable.map((id) => (id === undefined ? undefined : this.members.get(id)));
+    for (let i = 0; i < positions.length; i++) {
+      yield { position: positions[i]!, node: nodes[owners[i]!]! };
+    }
+  }
+
+  /**
+   * Gets the number of nodes in the ring
+   * @returns The number of physical nodes
+   */
+  get size(): number {
+    return this.weights.size;
+  }
+
+  /**
+   * Gets all nodes in the ring
+   * @returns Array of nodes, in the order they were added
+   */
+  get nodes(): TNode[] {
+    return Array.from(this.weights.keys(), (id) => this.members.get(id)!);
+  }
+
+  /**
+   * Serializes the hash ring to a JSON-compatible object
+   * Node objects are encoded with the ring's codec, if it has one.
+   * @returns Object containing node identifiers, configuration, non-default
+   * weights and encoded nodes
+   */
+  toJSON(): HashOrbitJSON {
+    const json: HashOrbitJSON = {
+      nodes: Array.from(this.weights.keys()),
+      replicas: this.replicas,
+      hash: this.hashName,
+    };
+    if (this.profileName) json.profile = this.profileName;
+    if (this.capacityFactor !== undefined) json.capacityFactor = this.capacityFactor;
+    if (this.probes !== undefined) json.probes = this.probes;
+
+    const weights: Record<string, number> = {};
+    let weighted = false;
+    for (const [node, weight] of this.weights) {
+      if (weight !== 1) {
+        weights[node] = weight;
+        weighted = true;
+      }
+    }
+    if (weighted) json.weights = weights;
+
+    const zones: Record<string, string> = {};
+    const racks: Record<string, string> = {};
+    for (const id of this.weights.keys()) {
+      const location = this.locations.get(id);
+      if (location?.zone !== undefined) zones[id] = location.zone;
+      if (location?.rack !== undefined) racks[id] = location.rack;
+    }
+    if (Object.keys(zones).length > 0) json.zones = zones;
+    if (Object.keys(racks).length > 0) json.racks = racks;
+
+    if (this.codec) {
+      const metadata: Record<string, unknown> = {};
+      for (const id of this.weights.keys()) metadata[id] = this.codec.encode(this.members.get(id)!);
+      json.metadata = metadata;
+    }
+
+    return json;
+  }
+
+  /**
+   * Creates a HashOrbit instance from a serialized object
+   * Rings built with a custom hash function must be given the same function
+   * through `options.hash`; profile rings restore their profile's hash.
+   * Rings of node objects need their key extractor and codec; without them
+   * the restored ring holds node identifiers.
+   * @param json - The serialized ring data
+   * @param options - Hash function, key extractor and codec to restore the ring with
+   * @returns A new HashOrbit instance with the same configuration, nodes and weights
+   * @throws Error if the hash does not match the one the ring was serialized
+   * with, nodes were encoded and no codec is given, or a key extractor is
+   * given without a codec
+   */
+  static fromJSON<TNode>(
+    json: HashOrbitJSON,
+    options: Pick<HashOrbitOptions<TNode>, 'hash'> &
+      Required<Pick<HashOrbitOptions<TNode>, 'key' | 'codec'>>
+  ): HashOrbit<TNode>;
+  static fromJSON(json: HashOrbitJSON, options?: Pick<HashOrbitOptions, 'hash'>): HashOrbit;
+  static fromJSON<TNode>(
+    json: HashOrbitJSON,
+    options: Pick<HashOrbitOptions<TNode>, 'hash' | 'key' | 'codec'> = {}
+  ): HashOrbit<TNode> {
+    return HashOrbit.restore(json, options);
+  }
+
+  /**
+   * Creates a HashOrbit instance from a serialized object, as fromJSON() does
+   * @param json - The serialized ring data
+   * @param options - Hash function, key extractor and codec
+   * @returns A new HashOrbit instance
+   * @throws Error if the hash does not match, nodes were encoded and no codec
+   * is given, or a key extractor is given without a codec
+   * @private
+   */
+  private static restore<TNode>(
+    json: HashOrbitJSON,
+    options: Pick<HashOrbitOptions<TNode>, 'hash' | 'key' | 'codec'>
+  ): HashOrbit<TNode> {
+    // Without a codec nodes are restored as identifiers, which are not TNode objects
+    if (options.key && !options.codec) {
+      throw new Error('Restoring node objects needs a codec; pass the codec option');
+    }
+    const ring = new HashOrbit<TNode>({
+      replicas: json.replicas,
+      profile: json.profile,
+      // Profiles bring their own hash, so only an explicit option is passed on
+      hash: json.profile ? options.hash : restoreHash(json.hash, options.hash),
+      capacityFactor: json.capacityFactor,
+      probes: json.probes,
+      key: options.key,
+      codec: options.codec,
+    });
+
+    ring.batch(() => {
+      for (const id of json.nodes) {
+        const node = decodeNode(id, json.metadata?.[id], options.codec);
+        ring.add(node, {
+          weight: json.weights?.[id] ?? 1,
+          zone: json.zones?.[id],
+          rack: json.racks?.[id],
+        });
+      }
+    });
+    return ring;
+  }
+
+  /**
+   * Returns a string representation of the ring for debugging
+   * @returns Debug information about the ring
+   */
+  toString(): string {
+    return `HashOrbit(nodes=${this.size}, positions=${this.positions.length}, replicas=${this.replicas})`;
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Bundled 32-bit hash functions for ring placement and key lookup
+ * All functions hash the UTF-8 encoding of their input, matching
+ * implementations in other languages that hash string bytes.
+ * @module hash-orbit/hashes
+ */
+
+import { hash32 } from 'murmur-hash';
+
+/**
+ * A hash function mapping a string to an unsigned 32-bit integer
+ */
+export type HashFunction = (input: string) => number;
+
+/**
+ * Names of the bundled hash functions
+ */
+export type HashAlgorithm = 'murmur3' | 'fnv1a' | 'crc32' | 'xxhash32' | 'md5';
+
+/**
+ * Name recorded for a hash function: a bundled algorithm, or 'custom'
+ */
+export type HashName = HashAlgorithm | 'custom';
+
+/**
+ * Encodes a string as UTF-8 bytes, replacing unpaired surrogates with
+ * U+FFFD as TextEncoder does
+ * @param input - The string to encode
+ * @returns UTF-8 bytes
+ * @private
+ */
+function utf8(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    let code = input.charCodeAt(i);
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < input.length) {
+      const low = input.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+    if (code >= 0xd800 && code <= 0xdfff) code = 0xfffd;
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Reads a little-endian unsigned 32-bit integer
+ * @param bytes - Source bytes
+ * @param offset - Offset of the first byte
+ * @returns Unsigned 32-bit integer
+ */
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset]! |
+      (bytes[offset + 1]! << 8) |
+      (bytes[offset + 2]! << 16) |
+      (bytes[offset + 3]! << 24)) >>>
+    0
+  );
+}
+
+/**
+ * Rotates a 32-bit integer left
+ * @private
+ */
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+/**
+ * MurmurHash3 x86 32-bit (seed 0), the default ring hash
+ * @param input - The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function murmur3(input: string): number {
+  return hash32(input);
+}
+
+/**
+ * FNV-1a 32-bit
+ * @param input - The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of utf8(input)) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32 (IEEE 802.3), as computed by zlib and Go's crc32.ChecksumIEEE
+ * @param input - The string to hash
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(input: string): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of utf8(input)) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const PRIME32_1 = 0x9e3779b1;
+const PRIME32_2 = 0x85ebca77;
+const PRIME32_3 = 0xc2b2ae3d;
+const PRIME32_4 = 0x27d4eb2f;
+const PRIME32_5 = 0x165667b1;
+
+/**
+ * Mixes one 32-bit lane of xxHash32 input into an accumulator
+ * @private
+ */
+function xxRound(acc: number, lane: number): number {
+  return Math.imul(rotl((acc + Math.imul(lane, PRIME32_2)) | 0, 13), PRIME32_1);
+}
+
+/**
+ * xxHash32 (seed 0)
+ * @param input - The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function xxhash32(input: string): number {
+  const data = utf8(input);
+  const length = data.length;
+  let offset = 0;
+  let hash: number;
+
+  if (length >= 16) {
+    let v1 = (PRIME32_1 + PRIME32_2) | 0;
+    let v2 = PRIME32_2;
+    let v3 = 0;
+    let v4 = -PRIME32_1 | 0;
+    while (offset <= length - 16) {
+      v1 = xxRound(v1, readUint32LE(data, offset));
+      v2 = xxRound(v2, readUint32LE(data, offset + 4));
+      v3 = xxRound(v3, readUint32LE(data, offset + 8));
+      v4 = xxRound(v4, readUint32LE(data, offset + 12));
+      offset += 16;
+    }
+    hash = (rotl(v1, 1) + rotl(v2, 7) + rotl(v3, 12) + rotl(v4, 18)) | 0;
+  } else {
+    hash = PRIME32_5;
+  }
+
+  hash = (hash + length) | 0;
+
+  while (offset + 4 <= length) {
+    hash = (hash + Math.imul(readUint32LE(data, offset), PRIME32_3)) | 0;
+    hash = Math.imul(rotl(hash, 17), PRIME32_4);
+    offset += 4;
+  }
+
+  while (offset < length) {
+    hash = (hash + Math.imul(data[offset]!, PRIME32_5)) | 0;
+    hash = Math.imul(rotl(hash, 11), PRIME32_1);
+    offset++;
+  }
+
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, PRIME32_2);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, PRIME32_3);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+  20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+  10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_CONSTANTS = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0
+);
+
+/**
+ * Computes the MD5 digest of a string
+ * Used by the MD5 ring hash and Ketama-compatible point placement
+ * @param input - The string to digest
+ * @returns 16-byte digest
+ */
+export function md5Digest(input: string): Uint8Array {
+  const message = utf8(input);
+  const paddedLength = (((message.length + 8) >>> 6) + 1) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const bitLength = message.length * 8;
+  padded[paddedLength - 8] = bitLength & 0xff;
+  padded[paddedLength - 7] = (bitLength >>> 8) & 0xff;
+  padded[paddedLength - 6] = (bitLength >>> 16) & 0xff;
+  padded[paddedLength - 5] = (bitLength >>> 24) & 0xff;
+  padded[paddedLength - 4] = Math.floor(bitLength / 0x100000000) & 0xff;
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89 | 0;
+  let c0 = 0x98badcfe | 0;
+  let d0 = 0x10325476;
+  const words = new Array<number>(16);
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = readUint32LE(padded, chunk + i * 4) | 0;
+    }
+
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const rotated = rotl((a + f + MD5_CONSTANTS[i]! + words[g]!) | 0, MD5_SHIFTS[i]!);
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotated) | 0;
+    }
+
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  [a0, b0, c0, d0].forEach((word, i) => {
+    digest[i * 4] = word & 0xff;
+    digest[i * 4 + 1] = (word >>> 8) & 0xff;
+    digest[i * 4 + 2] = (word >>> 16) & 0xff;
+    digest[i * 4 + 3] = (word >>> 24) & 0xff;
+  });
+  return digest;
+}
+
+/**
+ * MD5 truncated to its first four bytes, read little-endian
+ * This is the key hash used by Ketama and libmemcached.
+ * @param input - The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function md5(input: string): number {
+  return readUint32LE(md5Digest(input), 0);
+}
+
+/**
+ * Bundled hash functions by algorithm name
+ */
+export const hashFunctions: Readonly<Record<HashAlgorithm, HashFunction>> = Object.freeze({
+  murmur3,
+  fnv1a,
+  crc32,
+  xxhash32,
+  md5,
+});
+
+/**
+ * Resolves a hash option to a function and the name recorded in serialized rings
+ * Bundled functions passed by reference resolve to their algorithm name;
+ * other functions are recorded as 'custom'.
+ * @param hash - Algorithm name or hash function
+ * @returns The hash function and its recorded name
+ * @throws Error if the algorithm name is unknown
+ */
+export function resolveHash(hash: HashAlgorithm | HashFunction = 'murmur3'): {
+  name: HashName;
+  fn: HashFunction;
+} {
+  if (typeof hash === 'function') {
+    const name = (Object.keys(hashFunctions) as HashAlgorithm[]).find(
+      (algorithm) => hashFunctions[algorithm] === hash
+    );
+    if (name) return { name, fn: hash };
+    // Coerce custom hashes to unsigned 32-bit so positions always compare consistently
+    return { name: 'custom', fn: (input) => hash(input) >>> 0 };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(hashFunctions, hash)) {
+    throw new Error(`Unknown hash algorithm "${hash}"`);
+  }
+  return { name: hash, fn: hashFunctions[hash] };
+}
+
+/**
+ * Picks the hash option for restoring a serialized ring
+ * @param recorded - Hash name recorded at serialization (rings without one used murmur3)
+ * @param provided - Hash option passed to fromJSON(), if any
+ * @returns The hash option to build the restored ring with
+ * @throws Error if a custom hash was recorded but not provided, or the hashes differ
+ */
+export function restoreHash(
+  recorded: HashName = 'murmur3',
+  provided?: HashAlgorithm | HashFunction
+): HashAlgorithm | HashFunction {
+  if (provided === undefined) {
+    if (recorded === 'custom') {
+      throw new Error(
+        'Ring was serialized with a custom hash function; pass it to fromJSON() via options.hash'
+      );
+    }
+    return recorded;
+  }
+
+  const { name } = resolveHash(provided);
+  if (name !== recorded) {
+    throw new Error(
+      `Hash mismatch: ring was serialized with "${recorded}" but "${name}" was provided`
+    );
+  }
+  return provided;
+}
@@ -0,0 +1,217 @@
+/**
+ * Jump consistent hash over a table of buckets
+ * @module hash-orbit/jump-hash
+ */
+
+import {
+  resolveHash,
+  restoreHash,
+  type HashAlgorithm,
+  type HashFunction,
+  type HashName,
+} from './hashes.js';
+import type { HashStrategy } from './strategy.js';
+import { validateIdentifier } from './validation.js';
+
+/**
+ * Configuration options for JumpHash
+ */
+export interface JumpHashOptions {
+  /**
+   * Hash function turning keys into the 32-bit seed of the jump
+   * @default 'murmur3'
+   */
+  hash?: HashAlgorithm | HashFunction;
+}
+
+/**
+ * Serialized form of a JumpHash
+ */
+export interface JumpHashJSON {
+  /** Node in each bucket, in bucket order */
+  buckets: string[];
+  /** Hash algorithm the table was built with */
+  hash: HashName;
+}
+
+/**
+ * Jump Consistent Hash (Lamping & Veach)
+ * Maps a 64-bit key to one of `buckets` buckets with perfect balance and no
+ * memory. Growing from n to n + 1 buckets moves ~1/(n + 1) of the keys, all
+ * of them into the new bucket.
+ * @param key - The key (non-negative, up to 64 bits)
+ * @param buckets - Number of buckets
+ * @returns Bucket index in [0, buckets)
+ */
+export function jumpHash(key: bigint | number, buckets: number): number {
+  let state = BigInt.asUintN(64, BigInt(key));
+  let bucket = -1;
+  let next = 0;
+  while (next < buckets) {
+    bucket = next;
+    state = BigInt.asUintN(64, state * 2862933555777941757n + 1n);
+    next = Math.floor((bucket + 1) * (2 ** 31 / Number((state >> 33n) + 1n)));
+  }
+  return bucket;
+}
+
+/**
+ * JumpHash - Jump consistent hashing for numbered shards
+ *
+ * Nodes occupy buckets 0..N-1 in the order they were added. Jump hash only
+ * supports growing or shrinking at the end of the bucket range, so removal
+ * works on a mapped bucket table:
+ * - Removing the last node drops the last bucket; only its keys move (~1/N).
+ * - Removing any other node moves the last node into the freed bucket before
+ *   dropping the last bucket. The removed node's keys move to the last node
+ *   and the last node's previous keys spread over the rest, so ~2/N of the
+ *   keys move.
+ * @class
+ */
+export class JumpHash implements HashStrategy {
+  private readonly buckets: string[];
+  private readonly bucketOf: Map<string, number>;
+  private readonly hash: HashFunction;
+  private readonly hashName: HashName;
+
+  /**
+   * Creates a new JumpHash instance
+   * @param options - Configuration options
+   */
+  constructor(options: JumpHashOptions = {}) {
+    const { name, fn } = resolveHash(options.hash);
+    this.hash = fn;
+    this.hashName = name;
+    this.buckets = [];
+    this.bucketOf = new Map();
+  }
+
+  /**
+   * Adds a node in a new bucket at the end of the table
+   * Adding a node that is already present is a no-op.
+   * @param node - The node identifier to add
+   * @throws Error if the node identifier is invalid
+   */
+  add(node: string): void {
+    validateIdentifier(node, 'Node identifier');
+    if (this.bucketOf.has(node)) return;
+
+    this.bucketOf.set(node, this.buckets.length);
+    this.buckets.push(node);
+  }
+
+  /**
+   * Removes a node from the table
+   * The last node takes over the freed bucket (see class documentation).
+   * @param node - The node identifier to remove
+   * @throws Error if the node identifier is invalid
+   */
+  remove(node: string): void {
+    validateIdentifier(node, 'Node identifier');
+    const bucket = this.bucketOf.get(node);
+    if (bucket === undefined) return;
+
+    const last = this.buckets.pop()!;
+    this.bucketOf.delete(node);
+    if (last !== node) {
+      this.buckets[bucket] = last;
+      this.bucketOf.set(last, bucket);
+    }
+  }
+
+  /**
+   * Gets the bucket a key maps to
+   * @param key - The key to look up
+   * @returns Bucket index, or -1 if there are no buckets
+   * @private
+   */
+  private bucketFor(key: string): number {
+    if (this.buckets.length === 0) return -1;
+    return jumpHash(this.hash(key), this.buckets.length);
+  }
+
+  /**
+   * Gets the node responsible for a given key
+   * @param key - The key to look up
+   * @returns The node identifier, or undefined if there are no nodes
+   * @throws Error if the key is invalid
+   */
+  get(key: string): string | undefined {
+    validateIdentifier(key, 'Key');
+    return this.buckets[this.bucketFor(key)];
+  }
+
+  /**
+   * Gets N unique nodes for a key (for replication)
+   * Replicas are the buckets following the key's bucket, wrapping around.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return
+   * @returns Array of node identifiers (up to count unique nodes)
+   * @throws Error if the key is invalid
+   */
+  getN(key: string, count: number): string[] {
+    validateIdentifier(key, 'Key');
+    const first = this.bucketFor(key);
+    const result: string[] = [];
+    for (let i = 0; i < Math.min(count, this.buckets.length); i++) {
+      result.push(this.buckets[(first + i) % this.buckets.length]!);
+    }
+    return result;
+  }
+
+  /**
+   * Gets the bucket index of a node
+   * @param node - The node identifier
+   * @returns Bucket index, or undefined if the node is not in the table
+   */
+  bucketOfNode(node: string): number | undefined {
+    return this.bucketOf.get(node);
+  }
+
+  /**
+   * Gets the number of nodes (buckets)
+   * @returns The number of nodes
+   */
+  get size(): number {
+    return this.buckets.length;
+  }
+
+  /**
+   * Gets all nodes in bucket order
+   * @returns Array of node identifiers
+   */
+  get nodes(): string[] {
+    return [...this.buckets];
+  }
+
+  /**
+   * Serializes the bucket table to a JSON-compatible object
+   * @returns Object containing the buckets and hash algorithm
+   */
+  toJSON(): JumpHashJSON {
+    return { buckets: this.nodes, hash: this.hashName };
+  }
+
+  /**
+   * Creates a JumpHash instance from a serialized object
+   * @param json - The serialized bucket table
+   * @param options - Hash function, required if the table used a custom one
+   * @returns A new JumpHash instance with the same buckets
+   * @throws Error if the hash does not match the one the table was serialized with
+   */
+  static fromJSON(json: JumpHashJSON, options: JumpHashOptions = {}): JumpHash {
+    const jump = new JumpHash({ hash: restoreHash(json.hash, options.hash) });
+    for (const node of json.buckets) {
+      jump.add(node);
+    }
+    return jump;
+  }
+
+  /**
+   * Returns a string representation of the table for debugging
+   * @returns Debug information about the table
+   */
+  toString(): string {
+    return `JumpHash(nodes=${this.size})`;
+  }
+}
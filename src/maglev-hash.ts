@@ -0,0 +1,303 @@
+/**
+ * Maglev lookup table hashing
+ * @module hash-orbit/maglev-hash
+ */
+
+import {
+  resolveHash,
+  restoreHash,
+  type HashAlgorithm,
+  type HashFunction,
+  type HashName,
+} from './hashes.js';
+import type { HashStrategy } from './strategy.js';
+import { validateIdentifier } from './validation.js';
+
+/**
+ * Configuration options for MaglevHash
+ */
+export interface MaglevHashOptions {
+  /**
+   * Number of lookup table entries, must be prime
+   * Larger tables balance better and disrupt less on membership changes;
+   * the Maglev paper recommends at least 100 entries per node.
+   * @default 65537
+   */
+  tableSize?: number;
+
+  /**
+   * Hash function for node permutations and key lookup
+   * @default 'murmur3'
+   */
+  hash?: HashAlgorithm | HashFunction;
+}
+
+/**
+ * Serialized form of a MaglevHash
+ */
+export interface MaglevHashJSON {
+  nodes: string[];
+  tableSize: number;
+  /** Hash algorithm the table was built with ('custom' for user-supplied functions) */
+  hash: HashName;
+}
+
+/**
+ * Checks whether a number is prime
+ * @private
+ */
+function isPrime(value: number): boolean {
+  if (!Number.isInteger(value) || value < 2) return false;
+  for (let divisor = 2; divisor * divisor <= value; divisor++) {
+    if (value % divisor === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * MaglevHash - Maglev consistent hashing (Eisenbud et al., NSDI 2016)
+ *
+ * Each node derives a permutation of the lookup table slots from two hashes
+ * of its identifier, and nodes take turns claiming their next preferred free
+ * slot until the table is full. Every node ends up with the same number of
+ * slots (±1), and `get()` is a single table read.
+ *
+ * The table is rebuilt on the first lookup after a membership change, so a
+ * batch of adds or removes costs one rebuild. Nodes fill the table in
+ * identifier order, so the table does not depend on insertion order.
+ * Removing a node reassigns its slots and, unlike a hash ring, a small
+ * fraction of other slots; `MaglevHash.disruption()` measures this.
+ * @class
+ */
+export class MaglevHash implements HashStrategy {
+  private readonly members: Set<string>;
+  private readonly tableSize: number;
+  private readonly hash: HashFunction;
+  private readonly hashName: HashName;
+  private table: Int32Array | undefined;
+  private tableNodes: string[];
+
+  /**
+   * Creates a new MaglevHash instance
+   * @param options - Configuration options
+   * @throws Error if the table size is not prime
+   */
+  constructor(options: MaglevHashOptions = {}) {
+    const tableSize = options.tableSize ?? 65537;
+    if (!isPrime(tableSize)) {
+      throw new Error('Table size must be a prime number');
+    }
+
+    const { name, fn } = resolveHash(options.hash);
+    this.hash = fn;
+    this.hashName = name;
+    this.tableSize = tableSize;
+    this.members = new Set();
+    this.table = undefined;
+    this.tableNodes = [];
+  }
+
+  /**
+   * Fills the lookup table from the node permutations
+   * @returns The lookup table of indices into tableNodes
+   * @private
+   */
+  private populate(): Int32Array {
+    const size = this.tableSize;
+    const nodes = [...this.members].sort();
+    const table = new Int32Array(size).fill(-1);
+    this.tableNodes = nodes;
+    if (nodes.length === 0) return table;
+
+    const offsets = nodes.map((node) => this.hash(`${node}:offset`) % size);
+    const skips = nodes.map((node) => (this.hash(`${node}:skip`) % (size - 1)) + 1);
+    const next = new Array<number>(nodes.length).fill(0);
+
+    let filled = 0;
+    while (true) {
+      for (let i = 0; i < nodes.length; i++) {
+        // Slot j of node i's permutation is (offset + j * skip) mod size
+        let slot = (offsets[i]! + next[i]! * skips[i]!) % size;
+        while (table[slot]! >= 0) {
+          next[i]!++;
+          slot = (offsets[i]! + next[i]! * skips[i]!) % size;
+        }
+        table[slot] = i;
+        next[i]!++;
+        if (++filled === size) return table;
+      }
+    }
+  }
+
+  /**
+   * Gets the lookup table, rebuilding it after membership changes
+   * @returns The lookup table
+   * @private
+   */
+  private lookupTable(): Int32Array {
+    if (!this.table) this.table = this.populate();
+    return this.table;
+  }
+
+  /**
+   * Adds a node
+   * Adding a node that is already present is a no-op.
+   * @param node - The node identifier to add
+   * @throws Error if the node identifier is invalid or the table is full
+   */
+  add(node: string): void {
+    validateIdentifier(node, 'Node identifier');
+    if (this.members.has(node)) return;
+    if (this.members.size >= this.tableSize) {
+      throw new Error(`Lookup table of size ${this.tableSize} cannot hold more nodes`);
+    }
+
+    this.members.add(node);
+    this.table = undefined;
+  }
+
+  /**
+   * Removes a node
+   * @param node - The node identifier to remove
+   * @throws Error if the node identifier is invalid
+   */
+  remove(node: string): void {
+    validateIdentifier(node, 'Node identifier');
+    if (this.members.delete(node)) this.table = undefined;
+  }
+
+  /**
+   * Gets the lookup table slot for a key
+   * @param key - The key to look up
+   * @returns Slot index
+   * @private
+   */
+  private slotFor(key: string): number {
+    return this.hash(key) % this.tableSize;
+  }
+
+  /**
+   * Gets the node responsible for a given key in O(1)
+   * @param key - The key to look up
+   * @returns The node identifier, or undefined if there are no nodes
+   * @throws Error if the key is invalid
+   */
+  get(key: string): string | undefined {
+    validateIdentifier(key, 'Key');
+    if (this.members.size === 0) return undefined;
+
+    const table = this.lookupTable();
+    return this.tableNodes[table[this.slotFor(key)]!];
+  }
+
+  /**
+   * Gets N unique nodes for a key (for replication)
+   * Walks the table from the key's slot and collects distinct nodes.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return
+   * @returns Array of node identifiers (up to count unique nodes)
+   * @throws Error if the key is invalid
+   */
+  getN(key: string, count: number): string[] {
+    validateIdentifier(key, 'Key');
+    if (this.members.size === 0 || count <= 0) return [];
+
+    const table = this.lookupTable();
+    const target = Math.min(count, this.members.size);
+    const result = new Set<string>();
+    const start = this.slotFor(key);
+    for (let i = 0; i < this.tableSize && result.size < target; i++) {
+      result.add(this.tableNodes[table[(start + i) % this.tableSize]!]!);
+    }
+    return [...result];
+  }
+
+  /**
+   * Gets the lookup table as node identifiers, one per slot
+   * @returns Array of length tableSize (empty if there are no nodes)
+   */
+  entries(): string[] {
+    if (this.members.size === 0) return [];
+    return Array.from(this.lookupTable(), (index) => this.tableNodes[index]!);
+  }
+
+  /**
+   * Measures the disruption between two lookup tables
+   * Compares the tables slot by slot. Slots owned in `before` by nodes that
+   * are gone from `after` must move, so they are reported separately from
+   * slots that moved between surviving nodes.
+   * @param before - The table before a membership change
+   * @param after - The table after the change
+   * @returns Fractions of slots that changed owner, in total and among surviving nodes
+   * @throws Error if the tables have different sizes
+   */
+  static disruption(
+    before: MaglevHash,
+    after: MaglevHash
+  ): { changed: number; unnecessary: number } {
+    if (before.tableSize !== after.tableSize) {
+      throw new Error('Cannot compare lookup tables of different sizes');
+    }
+
+    const previous = before.entries();
+    const current = after.entries();
+    let changed = 0;
+    let unnecessary = 0;
+    for (let slot = 0; slot < before.tableSize; slot++) {
+      if (previous[slot] === current[slot]) continue;
+      changed++;
+      if (previous[slot] !== undefined && after.members.has(previous[slot]!)) unnecessary++;
+    }
+    return { changed: changed / before.tableSize, unnecessary: unnecessary / before.tableSize };
+  }
+
+  /**
+   * Gets the number of nodes
+   * @returns The number of nodes
+   */
+  get size(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Gets all nodes
+   * @returns Array of node identifiers
+   */
+  get nodes(): string[] {
+    return [...this.members];
+  }
+
+  /**
+   * Serializes the table configuration to a JSON-compatible object
+   * @returns Object containing nodes, table size and hash algorithm
+   */
+  toJSON(): MaglevHashJSON {
+    return { nodes: this.nodes, tableSize: this.tableSize, hash: this.hashName };
+  }
+
+  /**
+   * Creates a MaglevHash instance from a serialized object
+   * @param json - The serialized table configuration
+   * @param options - Hash function, required if the table used a custom one
+   * @returns A new MaglevHash instance with the same lookup table
+   * @throws Error if the hash does not match the one the table was serialized with
+   */
+  static fromJSON(json: MaglevHashJSON, options: Pick<MaglevHashOptions, 'hash'> = {}): MaglevHash {
+    const maglev = new MaglevHash({
+      tableSize: json.tableSize,
+      hash: restoreHash(json.hash, options.hash),
+    });
+    for (const node of json.nodes) {
+      maglev.add(node);
+    }
+    return maglev;
+  }
+
+  /**
+   * Returns a string representation for debugging
+   * @returns Debug information about the table
+   */
+  toString(): string {
+    return `MaglevHash(nodes=${this.size}, tableSize=${this.tableSize})`;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Key migration planning between two node layouts
+ * @module hash-orbit/migration
+ */
+
+import type { HashStrategy } from './strategy.js';
+
+/**
+ * A key that changes placement between two layouts
+ */
+export interface KeyMove {
+  key: string;
+  /** Node that stops holding the key (undefined if no node loses it) */
+  from: string | undefined;
+  /** Node that starts holding the key (undefined if no node gains it) */
+  to: string | undefined;
+}
+
+/**
+ * Moves sharing a source and destination node
+ */
+export interface MigrationGroup {
+  from: string | undefined;
+  to: string | undefined;
+  keys: string[];
+}
+
+/**
+ * Options for planning a migration
+ */
+export interface MigrationOptions {
+  /**
+   * Compare replica sets from getN(key, replicas) instead of single owners
+   * Nodes leaving a key's replica set are paired with nodes joining it, in
+   * preference order. A joining node without a leaving partner (the set
+   * grew) has `from: undefined` and copies from a surviving replica; a
+   * leaving node without a joining partner has `to: undefined`.
+   */
+  replicas?: number;
+}
+
+/**
+ * Computes the moves for one key
+ * @private
+ */
+function movesFor(
+  before: HashStrategy,
+  after: HashStrategy,
+  key: string,
+  replicas: number | undefined
+): KeyMove[] {
+  if (replicas === undefined) {
+    const from = before.get(key);
+    const to = after.get(key);
+    return from === to ? [] : [{ key, from, to }];
+  }
+
+  const previous = before.getN(key, replicas);
+  const next = after.getN(key, replicas);
+  const departed = previous.filter((node) => !next.includes(node));
+  const arrived = next.filter((node) => !previous.includes(node));
+
+  const moves: KeyMove[] = [];
+  for (let i = 0; i < Math.max(departed.length, arrived.length); i++) {
+    moves.push({ key, from: departed[i], to: arrived[i] });
+  }
+  return moves;
+}
+
+/**
+ * Validates migration options
+ * @private
+ */
+function validateOptions(options: MigrationOptions): void {
+  if (
+    options.replicas !== undefined &&
+    !(Number.isInteger(options.replicas) && options.replicas >= 1)
+  ) {
+    throw new Error('Replicas must be a positive integer');
+  }
+}
+
+/**
+ * Plans which keys move between two layouts of nodes
+ * Keys are read lazily and moves are yielded as they are found, so key sets
+ * larger than memory can be streamed. Pass an async iterable (e.g. a
+ * database cursor) to get an async iterable of moves.
+ * @param before - The layout keys are currently placed with
+ * @param after - The layout keys should be placed with
+ * @param keys - Keys to check
+ * @param options - Replica set comparison
+ * @returns Iterable of moves, in key order
+ * @throws Error if the options are invalid or a key is invalid
+ */
+export function planMigration(
+  before: HashStrategy,
+  after: HashStrategy,
+  keys: Iterable<string>,
+  options?: MigrationOptions
+): Generator<KeyMove>;
+export function planMigration(
+  before: HashStrategy,
+  after: HashStrategy,
+  keys: AsyncIterable<string>,
+  options?: MigrationOptions
+): AsyncGenerator<KeyMove>;
+export function planMigration(
+  before: HashStrategy,
+  after: HashStrategy,
+  keys: Iterable<string> | AsyncIterable<string>,
+  options: MigrationOptions = {}
+): Generator<KeyMove> | AsyncGenerator<KeyMove> {
+  validateOptions(options);
+  const { replicas } = options;
+
+  if (Symbol.asyncIterator in keys) {
+    return (async function* () {
+      for await (const key of keys) {
+        yield* movesFor(before, after, key, replicas);
+      }
+    })();
+  }
+
+  return (function* () {
+    for (const key of keys) {
+      yield* movesFor(before, after, key, replicas);
+    }
+  })();
+}
+
+/**
+ * Groups moves by source and destination node
+ * Groups appear in the order their first move was seen, which lets a
+ * migration transfer keys in one batch per pair of nodes.
+ * @param moves - Moves from planMigration()
+ * @returns Groups of keys per (from, to) pair; a promise for async moves
+ */
+export function groupMoves(moves: Iterable<KeyMove>): MigrationGroup[];
+export function groupMoves(moves: AsyncIterable<KeyMove>): Promise<MigrationGroup[]>;
+export function groupMoves(
+  moves: Iterable<KeyMove> | AsyncIterable<KeyMove>
+): MigrationGroup[] | Promise<MigrationGroup[]> {
+  const groups = new Map<string, MigrationGroup>();
+  const addMove = ({ key, from, to }: KeyMove) => {
+    // JSON keeps undefined distinct from any node identifier
+    const pair = JSON.stringify([from ?? null, to ?? null]);
+    const group = groups.get(pair);
+    if (group) {
+      group.keys.push(key);
+    } else {
+      groups.set(pair, { from, to, keys: [key] });
+    }
+  };
+
+  if (Symbol.asyncIterator in moves) {
+    return (async () => {
+      for await (const move of moves) addMove(move);
+      return [...groups.values()];
+    })();
+  }
+
+  for (const move of moves) addMove(move);
+  return [...groups.values()];
+}
@@ -0,0 +1,128 @@
+/**
+ * Compatibility profiles reproducing the rings of other consistent hashing libraries
+ * @module hash-orbit/profiles
+ */
+
+import { crc32, md5Digest, readUint32LE, type HashAlgorithm } from './hashes.js';
+
+/**
+ * Names of the bundled compatibility profiles
+ */
+export type RingProfileName = 'ketama' | 'groupcache' | 'hashring';
+
+/**
+ * Virtual node layout and key hash of another library
+ * @private
+ */
+export interface RingProfile {
+  /** Hash algorithm used for key lookup */
+  readonly hash: HashAlgorithm;
+  /** Points per node at equal weights when `replicas` is not set */
+  readonly replicas: number;
+  /** Whether a node's point count depends on the weights of the other nodes */
+  readonly proportional: boolean;
+  /**
+   * Computes the number of points for a node
+   * @param replicas - Points per node at equal weights
+   * @param weight - The node weight
+   * @param totalWeight - Sum of all node weights
+   * @param nodeCount - Number of nodes in the ring
+   */
+  pointCount(replicas: number, weight: number, totalWeight: number, nodeCount: number): number;
+  /**
+   * Computes the positions of points [from, to) of a node
+   * @param node - The node identifier
+   * @param from - First point index (inclusive)
+   * @param to - Last point index (exclusive)
+   */
+  points(node: string, from: number, to: number): number[];
+}
+
+/**
+ * Computes Ketama-style points: four little-endian words per MD5 digest of `${node}-${i}`
+ * @private
+ */
+function md5Points(node: string, from: number, to: number): number[] {
+  const positions: number[] = [];
+  let digest: Uint8Array | undefined;
+  for (let i = from; i < to; i++) {
+    if (!digest || i % 4 === 0) digest = md5Digest(`${node}-${Math.floor(i / 4)}`);
+    positions.push(readUint32LE(digest, (i % 4) * 4));
+  }
+  return positions;
+}
+
+/**
+ * Ketama as implemented by libmemcached (KETAMA_WEIGHTED) and twemproxy
+ * Each node gets `floor(share * 160 / 4 * nodeCount) * 4` points computed in
+ * single precision, and every MD5 digest of `${node}-${i}` yields four
+ * little-endian points. Use the node string the other clients hash, e.g.
+ * `host:port` (libmemcached drops the default port 11211).
+ */
+const ketama: RingProfile = {
+  hash: 'md5',
+  replicas: 160,
+  proportional: true,
+
+  pointCount(replicas, weight, totalWeight, nodeCount) {
+    const share = Math.fround(Math.fround(weight) / Math.fround(totalWeight));
+    const digests = Math.fround(Math.fround(Math.fround(share * replicas) / 4) * nodeCount);
+    return Math.floor(Math.fround(digests + 0.0000000001)) * 4;
+  },
+
+  points: md5Points,
+};
+
+/**
+ * Go's github.com/golang/groupcache/consistenthash
+ * Point `i` of a node is `crc32(strconv.Itoa(i) + node)` and keys hash with
+ * CRC-32. groupcache has no weights, so only weight 1 is compatible; other
+ * weights scale the point count as in native rings. groupcache's HTTPPool
+ * uses 50 replicas.
+ */
+const groupcache: RingProfile = {
+  hash: 'crc32',
+  replicas: 50,
+  proportional: false,
+
+  pointCount(replicas, weight) {
+    return Math.max(1, Math.round(replicas * weight));
+  },
+
+  points(node, from, to) {
+    const positions: number[] = [];
+    for (let i = from; i < to; i++) {
+      positions.push(crc32(`${i}${node}`));
+    }
+    return positions;
+  },
+};
+
+/**
+ * The hashring npm package (3.x, default options)
+ * Same points as Ketama, but each node gets
+ * `floor(weight / totalWeight * 40 * nodeCount)` digests computed in double
+ * precision without Ketama's rounding guard, so e.g. seven equal nodes get
+ * 39 digests (156 points) each.
+ */
+const hashring: RingProfile = {
+  hash: 'md5',
+  replicas: 160,
+  proportional: true,
+
+  pointCount(replicas, weight, totalWeight, nodeCount) {
+    return Math.floor((weight / totalWeight) * (replicas / 4) * nodeCount) * 4;
+  },
+
+  points: md5Points,
+};
+
+/**
+ * Bundled compatibility profiles by name
+ * @private
+ */
+export const ringProfiles: Readonly<Record<RingProfileName, RingProfile>> = Object.freeze({
+  ketama,
+  groupcache,
+  hashring,
+});
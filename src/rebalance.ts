@@ -0,0 +1,233 @@
+/**
+ * Executes migration plans with bounded concurrency, retries and checkpoints
+ * @module hash-orbit/rebalance
+ */
+
+import type { KeyMove } from './migration.js';
+
+/**
+ * Position in a migration plan from which a rebalance can resume
+ * Moves are numbered in plan order. JSON-serializable.
+ */
+export interface RebalanceCheckpoint {
+  /** Every move before this index has completed */
+  offset: number;
+  /** Completed moves at or after offset */
+  done: number[];
+}
+
+/**
+ * Progress reported after each move finishes
+ */
+export interface RebalanceProgress {
+  /** Moves completed in this run */
+  completed: number;
+  /** Moves that failed after all retries */
+  failed: number;
+  /** Moves skipped because the resumed checkpoint had completed them */
+  skipped: number;
+  /** The move that just finished */
+  move: KeyMove;
+}
+
+/**
+ * Options for executing a migration plan
+ */
+export interface RebalanceOptions {
+  /**
+   * Copies a key to its new node
+   * `from` is undefined when a replica set grew and the key has no leaving
+   * node to copy from; the callback then reads from any existing replica.
+   */
+  copy(key: string, from: string | undefined, to: string): Promise<void>;
+
+  /**
+   * Deletes a key from the node it left, after the copy succeeded
+   * Omit to keep the old copies (e.g. to let a cache expire them).
+   */
+  delete?(key: string, from: string): Promise<void>;
+
+  /**
+   * Maximum number of moves in flight
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Retries per failed copy or delete before the move is reported as failed
+   * @default 3
+   */
+  retries?: number;
+
+  /**
+   * Waits before retry number `attempt` (1-based), e.g. exponential backoff
+   * Retries happen immediately when omitted.
+   */
+  backoff?(attempt: number): Promise<void>;
+
+  /** Called after each move finishes */
+  onProgress?(progress: RebalanceProgress): void;
+
+  /**
+   * Called with a new checkpoint after each completed move, one call at a time
+   * Persist it to resume after a crash. If it throws, the run stops.
+   */
+  onCheckpoint?(checkpoint: RebalanceCheckpoint): void | Promise<void>;
+
+  /** Checkpoint of an earlier run of the same plan to resume from */
+  resumeFrom?: RebalanceCheckpoint;
+}
+
+/**
+ * Outcome of a rebalance
+ */
+export interface RebalanceResult {
+  /** Moves completed in this run */
+  completed: number;
+  /** Moves skipped because the resumed checkpoint had completed them */
+  skipped: number;
+  /** Moves that failed after all retries, with their last error */
+  failed: Array<{ move: KeyMove; error: unknown }>;
+  /** Final checkpoint; resuming from it retries only the failed moves */
+  checkpoint: RebalanceCheckpoint;
+}
+
+/**
+ * Runs an async step, retrying failures
+ * @private
+ */
+async function withRetries(
+  step: () => Promise<void>,
+  retries: number,
+  backoff: ((attempt: number) => Promise<void>) | undefined
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await step();
+      return;
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      await backoff?.(attempt + 1);
+    }
+  }
+}
+
+/**
+ * Executes a migration plan
+ * Each move copies the key to `to` and then deletes it from `from`. Up to
+ * `concurrency` moves run at once, failed steps are retried, and a move
+ * that still fails is reported without stopping the others.
+ *
+ * To resume after a crash, run the same plan (same layouts and key order)
+ * with the last persisted checkpoint as `resumeFrom`. Moves that were in
+ * flight during the crash run again, so callbacks must be idempotent.
+ * @param plan - Moves from planMigration(), sync or async
+ * @param options - Callbacks, limits and checkpointing
+ * @returns Counts, failures and the final checkpoint
+ * @throws Error if the options are invalid, or rethrows an onCheckpoint error
+ * once the moves in flight have settled
+ */
+export async function rebalance(
+  plan: Iterable<KeyMove> | AsyncIterable<KeyMove>,
+  options: RebalanceOptions
+): Promise<RebalanceResult> {
+  const concurrency = options.concurrency ?? 4;
+  const retries = options.retries ?? 3;
+  if (!(Number.isInteger(concurrency) && concurrency >= 1)) {
+    throw new Error('Concurrency must be a positive integer');
+  }
+  if (!(Number.isInteger(retries) && retries >= 0)) {
+    throw new Error('Retries must be a non-negative integer');
+  }
+
+  const iterator =
+    Symbol.asyncIterator in plan ? plan[Symbol.asyncIterator]() : plan[Symbol.iterator]();
+  let offset = options.resumeFrom?.offset ?? 0;
+  const done = new Set(options.resumeFrom?.done ?? []);
+  const result: RebalanceResult = {
+    completed: 0,
+    skipped: 0,
+    failed: [],
+    checkpoint: { offset, done: [...done] },
+  };
+
+  // Pulls are chained so moves are numbered in plan order
+  let nextIndex = 0;
+  let pulls: Promise<unknown> = Promise.resolve();
+  const pull = (): Promise<{ move: KeyMove; index: number } | undefined> => {
+    const next = pulls.then(async () => {
+      const item = await iterator.next();
+      return item.done ? undefined : { move: item.value, index: nextIndex++ };
+    });
+    pulls = next;
+    return next;
+  };
+
+  let checkpoints: Promise<void> = Promise.resolve();
+  const complete = (index: number): Promise<void> => {
+    done.add(index);
+    while (done.has(offset)) {
+      done.delete(offset);
+      offset++;
+    }
+    const checkpoint = { offset, done: [...done].sort((a, b) => a - b) };
+    result.checkpoint = checkpoint;
+    if (!options.onCheckpoint) return Promise.resolve();
+    checkpoints = checkpoints.then(() => options.onCheckpoint!(checkpoint));
+    return checkpoints;
+  };
+
+  const progress = () => ({
+    completed: result.completed,
+    failed: result.failed.length,
+    skipped: result.skipped,
+  });
+
+  let stopped = false;
+  const worker = async (): Promise<void> => {
+    while (!stopped) {
+      const item = await pull();
+      if (!item) return;
+
+      const { move, index } = item;
+      if (index < offset || done.has(index)) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        if (move.to !== undefined) {
+          const to = move.to;
+          await withRetries(() => options.copy(move.key, move.from, to), retries, options.backoff);
+        }
+        if (move.from !== undefined && options.delete) {
+          const from = move.from;
+          await withRetries(() => options.delete!(move.key, from), retries, options.backoff);
+        }
+      } catch (error) {
+        result.failed.push({ move, error });
+        options.onProgress?.({ ...progress(), move });
+        continue;
+      }
+
+      result.completed++;
+      options.onProgress?.({ ...progress(), move });
+      await complete(index);
+    }
+  };
+
+  // On a fatal error, stop pulling moves and let the ones in flight settle
+  const outcomes = await Promise.allSettled(
+    Array.from({ length: concurrency }, () =>
+      worker().catch((error: unknown) => {
+        stopped = true;
+        throw error;
+      })
+    )
+  );
+  const fatal = outcomes.find((outcome) => outcome.status === 'rejected');
+  if (fatal) throw fatal.reason;
+
+  await checkpoints;
+  return result;
+}
@@ -0,0 +1,243 @@
+/**
+ * Rendezvous (highest random weight) hashing
+ * @module hash-orbit/rendezvous-hash
+ */
+
+import type { AddOptions } from './hash-orbit.js';
+import {
+  resolveHash,
+  restoreHash,
+  type HashAlgorithm,
+  type HashFunction,
+  type HashName,
+} from './hashes.js';
+import type { HashStrategy } from './strategy.js';
+import { validateIdentifier, validateWeight } from './validation.js';
+
+/**
+ * Configuration options for RendezvousHash
+ */
+export interface RendezvousHashOptions {
+  /**
+   * Hash function scoring each node for a key
+   * @default 'murmur3'
+   */
+  hash?: HashAlgorithm | HashFunction;
+}
+
+/**
+ * Serialized form of a RendezvousHash
+ */
+export interface RendezvousHashJSON {
+  nodes: string[];
+  /** Hash algorithm the nodes were scored with ('custom' for user-supplied functions) */
+  hash: HashName;
+  /** Weights of nodes that differ from the default weight of 1 */
+  weights?: Record<string, number>;
+}
+
+/**
+ * RendezvousHash - Highest random weight (HRW) hashing
+ *
+ * Every node scores every key and the highest score wins, so there is no
+ * ring to build and no virtual nodes: distribution is as even as the hash
+ * itself. Sorting the scores gives each key a stable preference order over
+ * all nodes; removing a node only promotes the nodes ranked after it.
+ *
+ * Weighted nodes use logarithmic scoring, `weight / -ln(u)` for a uniform
+ * `u` derived from `hash("<node>:<key>")`, which gives each node a share of
+ * keys proportional to its weight. Lookups are O(n) in the number of nodes,
+ * which suits clusters of up to a few dozen nodes.
+ * @class
+ */
+export class RendezvousHash implements HashStrategy {
+  private readonly weights: Map<string, number>;
+  private readonly hash: HashFunction;
+  private readonly hashName: HashName;
+
+  /**
+   * Creates a new RendezvousHash instance
+   * @param options - Configuration options
+   */
+  constructor(options: RendezvousHashOptions = {}) {
+    const { name, fn } = resolveHash(options.hash);
+    this.hash = fn;
+    this.hashName = name;
+    this.weights = new Map();
+  }
+
+  /**
+   * Scores a node for a key
+   * Maps the 32-bit hash into (0, 1) and applies logarithmic weighting.
+   * With equal weights the ranking matches the ranking of the raw hashes.
+   * @param node - The node identifier
+   * @param weight - The node weight
+   * @param key - The key being placed
+   * @returns Score, higher wins
+   * @private
+   */
+  private score(node: string, weight: number, key: string): number {
+    const uniform = (this.hash(`${node}:${key}`) + 0.5) / 0x100000000;
+    return weight / -Math.log(uniform);
+  }
+
+  /**
+   * Scores all nodes for a key and sorts them by descending score
+   * Equal scores go to the lowest node identifier, independent of insertion order.
+   * @param key - The key being placed
+   * @returns Node identifiers in preference order
+   * @private
+   */
+  private rank(key: string): string[] {
+    const scored: Array<{ node: string; score: number }> = [];
+    for (const [node, weight] of this.weights) {
+      scored.push({ node, score: this.score(node, weight, key) });
+    }
+    scored.sort((a, b) => b.score - a.score || (a.node < b.node ? -1 : 1));
+    return scored.map(({ node }) => node);
+  }
+
+  /**
+   * Adds a node
+   * Adding a node that is already present updates its weight.
+   * @param node - The node identifier to add
+   * @param options - Per-node options such as weight
+   * @throws Error if the node identifier or weight is invalid
+   */
+  add(node: string, options: AddOptions = {}): void {
+    validateIdentifier(node, 'Node identifier');
+    const weight = options.weight ?? this.weights.get(node) ?? 1;
+    validateWeight(weight);
+    this.weights.set(node, weight);
+  }
+
+  /**
+   * Removes a node
+   * Only keys owned by the node move, each to its next preferred node.
+   * @param node - The node identifier to remove
+   * @throws Error if the node identifier is invalid
+   */
+  remove(node: string): void {
+    validateIdentifier(node, 'Node identifier');
+    this.weights.delete(node);
+  }
+
+  /**
+   * Changes the weight of a node
+   * Only the node's own scores change, so keys move only to or from this node.
+   * @param node - The node identifier
+   * @param weight - The new weight
+   * @throws Error if the node is unknown or the weight is invalid
+   */
+  setWeight(node: string, weight: number): void {
+    validateIdentifier(node, 'Node identifier');
+    validateWeight(weight);
+    if (!this.weights.has(node)) {
+      throw new Error(`Node "${node}" is not in the ring`);
+    }
+    this.weights.set(node, weight);
+  }
+
+  /**
+   * Gets the weight of a node
+   * @param node - The node identifier
+   * @returns The node weight, or undefined if the node is unknown
+   */
+  getWeight(node: string): number | undefined {
+    return this.weights.get(node);
+  }
+
+  /**
+   * Gets the node with the highest score for a key
+   * @param key - The key to look up
+   * @returns The node identifier, or undefined if there are no nodes
+   * @throws Error if the key is invalid
+   */
+  get(key: string): string | undefined {
+    validateIdentifier(key, 'Key');
+
+    let best: string | undefined;
+    let bestScore = -Infinity;
+    for (const [node, weight] of this.weights) {
+      const score = this.score(node, weight, key);
+      if (score > bestScore || (score === bestScore && node < best!)) {
+        best = node;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Gets the N highest-scoring nodes for a key (for replication)
+   * The order is stable: membership changes never reorder the remaining nodes.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return
+   * @returns Array of node identifiers in preference order (up to count nodes)
+   * @throws Error if the key is invalid
+   */
+  getN(key: string, count: number): string[] {
+    validateIdentifier(key, 'Key');
+    if (count <= 0) return [];
+    return this.rank(key).slice(0, count);
+  }
+
+  /**
+   * Gets the number of nodes
+   * @returns The number of nodes
+   */
+  get size(): number {
+    return this.weights.size;
+  }
+
+  /**
+   * Gets all nodes
+   * @returns Array of node identifiers
+   */
+  get nodes(): string[] {
+    return [...this.weights.keys()];
+  }
+
+  /**
+   * Serializes the nodes to a JSON-compatible object
+   * @returns Object containing nodes, hash algorithm and non-default weights
+   */
+  toJSON(): RendezvousHashJSON {
+    const json: RendezvousHashJSON = { nodes: this.nodes, hash: this.hashName };
+
+    const weights: Record<string, number> = {};
+    let weighted = false;
+    for (const [node, weight] of this.weights) {
+      if (weight !== 1) {
+        weights[node] = weight;
+        weighted = true;
+      }
+    }
+    if (weighted) json.weights = weights;
+
+    return json;
+  }
+
+  /**
+   * Creates a RendezvousHash instance from a serialized object
+   * @param json - The serialized nodes
+   * @param options - Hash function, required if the nodes were scored with a custom one
+   * @returns A new RendezvousHash instance with the same nodes and weights
+   * @throws Error if the hash does not match the one it was serialized with
+   */
+  static fromJSON(json: RendezvousHashJSON, options: RendezvousHashOptions = {}): RendezvousHash {
+    const rendezvous = new RendezvousHash({ hash: restoreHash(json.hash, options.hash) });
+    for (const node of json.nodes) {
+      rendezvous.add(node, { weight: json.weights?.[node] ?? 1 });
+    }
+    return rendezvous;
+  }
+
+  /**
+   * Returns a string representation for debugging
+   * @returns Debug information about the nodes
+   */
+  toString(): string {
+    return `RendezvousHash(nodes=${this.size})`;
+  }
+}
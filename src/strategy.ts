@@ -0,0 +1,50 @@
+/**
+ * Common interface of the key-to-node strategies
+ * @module hash-orbit/strategy
+ */
+
+/**
+ * A strategy mapping keys to nodes
+ * Code written against this interface can switch between HashOrbit and the
+ * other strategies without changes. Nodes are string identifiers unless the
+ * strategy is given a node type.
+ */
+export interface HashStrategy<TNode = string> {
+  /**
+   * Adds a node
+   * @param node - The node to add
+   */
+  add(node: TNode): void;
+
+  /**
+   * Removes a node
+   * @param node - The node to remove
+   */
+  remove(node: TNode): void;
+
+  /**
+   * Gets the node responsible for a key
+   * @param key - The key to look up
+   * @returns The node, or undefined if there are no nodes
+   */
+  get(key: string): TNode | undefined;
+
+  /**
+   * Gets N unique nodes for a key, in preference order
+   * @param key - The key to look up
+   * @param count - Number of unique nodes to return
+   * @returns Array of nodes (up to count unique nodes)
+   */
+  getN(key: string, count: number): TNode[];
+
+  /** Number of nodes */
+  readonly size: number;
+
+  /** All nodes */
+  readonly nodes: TNode[];
+
+  /**
+   * Serializes the strategy to a JSON-compatible object
+   */
+  toJSON(): object;
+}
@@ -0,0 +1,293 @@
+/**
+ * Dual-ring lookups during a live migration
+ * @module hash-orbit/transition-ring
+ */
+
+import {
+  HashOrbit,
+  type HashOrbitJSON,
+  type HashOrbitOptions,
+  type MovedRange,
+} from './hash-orbit.js';
+
+/**
+ * A moved range and whether its keys have been migrated
+ * Like the ranges from HashOrbit.diff(), `from` and `to` are node identifiers.
+ */
+export interface TransitionRange extends MovedRange {
+  /** Position of the range in ranges, used to mark it complete */
+  index: number;
+  /** Whether the range's keys have been migrated to their new owner */
+  complete: boolean;
+}
+
+/**
+ * Nodes to read a key from during a transition
+ */
+export interface TransitionLookup<TNode = string> {
+  /** Owner in the next ring, where the key is written */
+  current: TNode | undefined;
+  /** Owner in the previous ring while the key's range is not yet migrated */
+  previous: TNode | undefined;
+}
+
+/**
+ * Replica sets to read a key from during a transition
+ */
+export interface TransitionLookupN<TNode = string> {
+  /** Replicas in the next ring */
+  current: TNode[];
+  /** Replicas in the previous ring while they differ and are not yet migrated, else [] */
+  previous: TNode[];
+}
+
+/**
+ * Serialized form of a TransitionRing
+ */
+export interface TransitionRingJSON {
+  previous: HashOrbitJSON;
+  next: HashOrbitJSON;
+  /** Indices of completed ranges */
+  completed: number[];
+}
+
+/**
+ * TransitionRing - Routes keys while migrating from one ring to another
+ *
+ * The keyspace ranges whose owner differs between the previous and next
+ * ring are computed with HashOrbit.diff(). Writes go to the next ring;
+ * reads of a key in a range that is not yet marked complete should fall
+ * back to the previous owner (read-through) so moved keys are never missed.
+ * Once every range is complete, the next ring can replace the transition.
+ *
+ * Ranges follow the primary owner. getN() also falls back for keys whose
+ * primary stayed but whose replica set changed; having no range of their
+ * own, they fall back until the whole transition is done.
+ * @class
+ */
+export class TransitionRing<TNode = string> {
+  private readonly previousRing: HashOrbit<TNode>;
+  private readonly nextRing: HashOrbit<TNode>;
+  private readonly moved: TransitionRange[];
+  private completedCount: number;
+
+  /**
+   * Creates a transition between two rings
+   * The rings are used as given and must not change during the transition.
+   * @param previous - The ring keys are currently placed with
+   * @param next - The ring keys are migrating to
+   * @throws Error if the rings use different hashes or multi-probe mode
+   */
+  constructor(previous: HashOrbit<TNode>, next: HashOrbit<TNode>) {
+    this.previousRing = previous;
+    this.nextRing = next;
+    this.moved = HashOrbit.diff(previous, next).ranges.map((range, index) => ({
+      ...range,
+      index,
+      complete: false,
+    }));
+    this.completedCount = 0;
+  }
+
+  /**
+   * Finds the moved range containing a key
+   * @param key - The key to look up
+   * @returns The range, or undefined if the key's primary owner did not move
+   * @private
+   */
+  private rangeOf(key: string): TransitionRange | undefined {
+    const position = this.nextRing.hashKey(key);
+    let left = 0;
+    let right = this.moved.length;
+
+    // Last range starting at or before the position
+    while (left < right) {
+      const mid = Math.floor((left + right) / 2);
+      if (this.moved[mid]!.start <= position) {
+        left = mid + 1;
+      } else {
+        right = mid;
+      }
+    }
+
+    const range = this.moved[left - 1];
+    return range && position <= range.end ? range : undefined;
+  }
+
+  /**
+   * Gets the nodes to read and write a key during the transition
+   * @param key - The key to look up
+   * @returns The next owner, and the previous owner if reads must fall back to it
+   * @throws Error if the key is invalid
+   */
+  get(key: string): TransitionLookup<TNode> {
+    const current = this.nextRing.get(key);
+    const range = this.rangeOf(key);
+    const from = range?.complete ? undefined : range?.from;
+    return { current, previous: from === undefined ? undefined : this.previousRing.getNode(from) };
+  }
+
+  /**
+   * Gets the replica sets to read and write a key during the transition
+   * The previous replicas are returned whenever they differ from the next
+   * ones (node objects compare by identity), until the key's range is
+   * complete, or, for a key whose primary did not move, until the
+   * transition is done.
+   * @param key - The key to look up
+   * @param count - Number of unique nodes per ring, or replicas per zone
+   * @returns Next replicas, and previous replicas if reads must fall back to them
+   * @throws Error if the key or a per-zone count is invalid
+   */
+  getN(key: string, count: number | Record<string, number>): TransitionLookupN<TNode> {
+    const current = this.nextRing.getN(key, count);
+    const range = this.rangeOf(key);
+    if (range ? range.complete : this.done) return { current, previous: [] };
+
+    const previous = this.previousRing.getN(key, count);
+    const same =
+      previous.length === current.length && previous.every((node, i) => node === current[i]);
+    return { current, previous: same ? [] : previous };
+  }
+
+  /**
+   * Marks a range as migrated, ending read-through for its keys
+   * @param index - Index of the range in ranges
+   * @throws Error if the range does not exist
+   */
+  markComplete(index: number): void {
+    const range = this.moved[index];
+    if (!range) {
+      throw new Error(`Range ${index} does not exist`);
+    }
+    if (range.complete) return;
+
+    range.complete = true;
+    this.completedCount++;
+  }
+
+  /**
+   * Checks whether a range has been migrated
+   * @param index - Index of the range in ranges
+   * @returns True if the range is marked complete
+   * @throws Error if the range does not exist
+   */
+  isComplete(index: number): boolean {
+    const range = this.moved[index];
+    if (!range) {
+      throw new Error(`Range ${index} does not exist`);
+    }
+    return range.complete;
+  }
+
+  /**
+   * Gets all moved ranges with their completion markers
+   * @returns Copies of the ranges in ascending hash order
+   */
+  get ranges(): TransitionRange[] {
+    return this.moved.map((range) => ({ ...range }));
+  }
+
+  /**
+   * Gets the moved ranges that still need migrating
+   * @returns Copies of the pending ranges in ascending hash order
+   */
+  get pendingRanges(): TransitionRange[] {
+    return this.ranges.filter((range) => !range.complete);
+  }
+
+  /**
+   * Gets the fraction of the moved keyspace that has been migrated
+   * @returns Progress between 0 and 1 (1 if nothing moves)
+   */
+  get progress(): number {
+    let total = 0;
+    let complete = 0;
+    for (const range of this.moved) {
+      const size = range.end - range.start + 1;
+      total += size;
+      if (range.complete) complete += size;
+    }
+    return total === 0 ? 1 : complete / total;
+  }
+
+  /**
+   * Whether every moved range has been migrated
+   * @returns True once the next ring can be used on its own
+   */
+  get done(): boolean {
+    return this.completedCount === this.moved.length;
+  }
+
+  /**
+   * Gets the ring keys are migrating from
+   * @returns The previous ring
+   */
+  get previous(): HashOrbit<TNode> {
+    return this.previousRing;
+  }
+
+  /**
+   * Gets the ring keys are migrating to
+   * @returns The next ring
+   */
+  get next(): HashOrbit<TNode> {
+    return this.nextRing;
+  }
+
+  /**
+   * Serializes both rings and the migration progress
+   * @returns Object containing both rings and the completed range indices
+   */
+  toJSON(): TransitionRingJSON {
+    return {
+      previous: this.previousRing.toJSON(),
+      next: this.nextRing.toJSON(),
+      completed: this.moved.filter((range) => range.complete).map((range) => range.index),
+    };
+  }
+
+  /**
+   * Creates a TransitionRing from a serialized object
+   * The moved ranges are recomputed from the rings, so indices match the
+   * serialized transition.
+   * @param json - The serialized transition
+   * @param options - Hash function, required if the rings used a custom one,
+   * and the key extractor and codec for rings of node objects
+   * @returns A new TransitionRing with the same rings and progress
+   * @throws Error if the hash does not match, a completed range does not
+   * exist, or a key extractor is given without a codec
+   */
+  static fromJSON<TNode>(
+    json: TransitionRingJSON,
+    options: Pick<HashOrbitOptions<TNode>, 'hash'> &
+      Required<Pick<HashOrbitOptions<TNode>, 'key' | 'codec'>>
+  ): TransitionRing<TNode>;
+  static fromJSON(
+    json: TransitionRingJSON,
+    options?: Pick<HashOrbitOptions, 'hash'>
+  ): TransitionRing;
+  static fromJSON<TNode>(
+    json: TransitionRingJSON,
+    options: Pick<HashOrbitOptions<TNode>, 'hash' | 'key' | 'codec'> = {}
+  ): TransitionRing<TNode> {
+    // Options without a key and codec restore identifiers, as the overloads promise
+    const restore = options as Pick<HashOrbitOptions<TNode>, 'hash'> &
+      Required<Pick<HashOrbitOptions<TNode>, 'key' | 'codec'>>;
+    const transition = new TransitionRing(
+      HashOrbit.fromJSON(json.previous, restore),
+      HashOrbit.fromJSON(json.next, restore)
+    );
+    for (const index of json.completed) {
+      transition.markComplete(index);
+    }
+    return transition;
+  }
+
+  /**
+   * Returns a string representation for debugging
+   * @returns Debug information about the transition
+   */
+  toString(): string {
+    return `TransitionRing(ranges=${this.moved.length}, completed=${this.completedCount}, progress=${this.progress.toFixed(3)})`;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Input validation shared by the hashing strategies
+ * @module hash-orbit/validation
+ */
+
+/**
+ * Validates a string identifier (node or key)
+ * @param value - The identifier to validate
+ * @param name - The name of the parameter for error messages
+ * @throws Error if the identifier is invalid
+ */
+export function validateIdentifier(value: string, name: string): void {
+  if (!value) {
+    throw new Error(`${name} cannot be empty`);
+  }
+  if (value.length > 1000) {
+    throw new Error(`${name} exceeds maximum length of 1000 characters`);
+  }
+}
+
+/**
+ * Validates a node weight
+ * @param weight - The weight to validate
+ * @throws Error if the weight is not a positive finite number
+ */
+export function validateWeight(weight: number): void {
+  if (!Number.isFinite(weight) || weight <= 0) {
+    throw new Error('Weight must be a positive finite number');
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'vitest';
+import { HashOrbit, type HashOrbitOptions } from '../src/index.js';
+
+const nodes = Array.from({ length: 40 }, (_, i) => `node-${i}`);
+const keys = Array.from({ length: 2000 }, (_, i) => `key:${i}`);
+
+function oneByOne(options: HashOrbitOptions = {}): HashOrbit {
+  const ring = new HashOrbit(options);
+  nodes.forEach((node) => ring.add(node));
+  return ring;
+}
+
+function expectSameLayout(actual: HashOrbit, expected: HashOrbit): void {
+  expect(actual.toString()).toBe(expected.toString());
+  expect(actual.nodes).toEqual(expected.nodes);
+  for (const key of keys) {
+    expect(actual.get(key)).toBe(expected.get(key));
+  }
+}
+
+describe('Batch updates', () => {
+  test('addAll() matches adding nodes one by one', () => {
+    const ring = new HashOrbit();
+    ring.addAll(nodes);
+    expectSameLayout(ring, oneByOne());
+  });
+
+  test('addAll() matches one by one for proportional profiles', () => {
+    const ring = new HashOrbit({ profile: 'ketama' });
+    ring.addAll(nodes);
+    expectSameLayout(ring, oneByOne({ profile: 'ketama' }));
+  });
+
+  test('addAll() applies the weight to every node', () => {
+    const ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b'], { weight: 2 });
+    expect(ring.getWeight('node-a')).toBe(2);
+    expect(ring.getWeight('node-b')).toBe(2);
+    expect(ring.toString()).toContain('positions=600');
+  });
+
+  test('removeAll() matches removing nodes one by one', () => {
+    const batched = oneByOne();
+    batched.removeAll(nodes.slice(0, 20));
+
+    const expected = oneByOne();
+    nodes.slice(0, 20).forEach((node) => expected.remove(node));
+    expectSameLayout(batched, expected);
+  });
+
+  test('addAll() and removeAll() validate every node first', () => {
+    const ring = oneByOne();
+    expect(() => ring.addAll(['node-x', ''])).toThrow();
+    expect(ring.nodes).not.toContain('node-x');
+
+    expect(() => ring.removeAll(['node-0', ''])).toThrow();
+    expect(ring.nodes).toContain('node-0');
+    expect(() => ring.addAll(['node-x'], { weight: -1 })).toThrow();
+    expect(ring.nodes).not.toContain('node-x');
+  });
+
+  test('batch() applies mixed changes like separate calls', () => {
+    const batched = oneByOne();
+    batched.batch((ring) => {
+      ring.add('node-new', { weight: 3 });
+      ring.remove('node-5');
+      ring.setWeight('node-7', 0.5);
+      ring.remove('node-9');
+      ring.add('node-9');
+    });
+
+    const expected = oneByOne();
+    expected.add('node-new', { weight: 3 });
+    expected.remove('node-5');
+    expected.setWeight('node-7', 0.5);
+    expected.remove('node-9');
+    expected.add('node-9');
+    expectSameLayout(batched, expected);
+  });
+
+  test('lookups inside a batch use the layout from before it', () => {
+    const ring = oneByOne();
+    const before = keys.map((key) => ring.get(key));
+
+    ring.batch(() => {
+      ring.removeAll(nodes.slice(0, 10));
+      expect(keys.map((key) => ring.get(key))).toEqual(before);
+    });
+
+    expect(keys.some((key) => nodes.slice(0, 10).includes(ring.get(key)!))).toBe(false);
+  });
+
+  test('changes made before an error are applied', () => {
+    const ring = oneByOne();
+    expect(() =>
+      ring.batch(() => {
+        ring.remove('node-0');
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+
+    const expected = oneByOne();
+    expected.remove('node-0');
+    expectSameLayout(ring, expected);
+  });
+
+  test('fromJSON() restores the same layout', () => {
+    const ring = oneByOne({ profile: 'ketama' });
+    ring.setWeight('node-3', 2);
+    expectSameLayout(HashOrbit.fromJSON(ring.toJSON()), ring);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit } from '../src/index.js';
+
+const nodes = ['node-a', 'node-b', 'node-c', 'node-d', 'node-e'];
+
+function maxLoad(ring: HashOrbit): number {
+  return Math.max(...ring.nodes.map((node) => ring.getLoad(node)!));
+}
+
+describe('bounded loads', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit({ capacityFactor: 1.25 });
+    nodes.forEach((node) => ring.add(node));
+  });
+
+  test('validates the capacity factor', () => {
+    expect(() => new HashOrbit({ capacityFactor: 0.9 })).toThrow(
+      'Capacity factor must be a finite number of at least 1'
+    );
+    expect(() => new HashOrbit({ capacityFactor: Infinity })).toThrow('Capacity factor');
+    expect(() => new HashOrbit({ capacityFactor: NaN })).toThrow('Capacity factor');
+  });
+
+  test('acquire and release require bounded loads', () => {
+    const plain = new HashOrbit();
+    plain.add('node-a');
+    expect(() => plain.acquire('key')).toThrow('Bounded loads are not enabled');
+    expect(() => plain.release('key')).toThrow('Bounded loads are not enabled');
+  });
+
+  test('matches the plain ring while loads are low', () => {
+    const plain = new HashOrbit();
+    nodes.forEach((node) => plain.add(node));
+
+    for (let i = 0; i < 500; i++) {
+      expect(ring.get(`key:${i}`)).toBe(plain.get(`key:${i}`));
+    }
+    expect(ring.acquire('key:0')).toBe(plain.get('key:0'));
+  });
+
+  test('no node exceeds ceil(c × average load)', () => {
+    for (let i = 0; i < 2000; i++) {
+      ring.acquire(`key:${i}`);
+      expect(maxLoad(ring)).toBeLessThanOrEqual(Math.ceil((1.25 * (i + 1)) / nodes.length));
+    }
+    expect(nodes.reduce((sum, node) => sum + ring.getLoad(node)!, 0)).toBe(2000);
+  });
+
+  test('repeated acquires of one key respect the bound', () => {
+    const home = ring.get('session:1');
+    for (let i = 0; i < 1000; i++) {
+      ring.acquire('session:1');
+      expect(maxLoad(ring)).toBeLessThanOrEqual(Math.ceil((1.25 * (i + 1)) / nodes.length));
+    }
+    expect(ring.getLoad(home!)).toBe(250);
+    expect(ring.get('session:1')).toBe(home);
+
+    for (let i = 0; i < 1000; i++) ring.release('session:1');
+    expect(nodes.map((node) => ring.getLoad(node))).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  test('spreads keys that all hash to one node', () => {
+    const plain = new HashOrbit();
+    nodes.forEach((node) => plain.add(node));
+    const hot: string[] = [];
+    for (let i = 0; hot.length < 100; i++) {
+      if (plain.get(`key:${i}`) === 'node-a') hot.push(`key:${i}`);
+    }
+
+    hot.forEach((key) => ring.acquire(key));
+    expect(ring.getLoad('node-a')).toBe(25);
+    expect(maxLoad(ring)).toBeLessThanOrEqual(25);
+  });
+
+  test('with c = 1 loads are perfectly balanced', () => {
+    const strict = new HashOrbit({ capacityFactor: 1 });
+    nodes.forEach((node) => strict.add(node));
+    for (let i = 0; i < 100; i++) strict.acquire(`key:${i}`);
+    expect(strict.nodes.map((node) => strict.getLoad(node))).toEqual([20, 20, 20, 20, 20]);
+  });
+
+  test('held keys keep their node while other loads change', () => {
+    const placed = new Map<string, string>();
+    for (let i = 0; i < 200; i++) {
+      placed.set(`key:${i}`, ring.acquire(`key:${i}`)!);
+    }
+    for (let i = 200; i < 400; i++) ring.acquire(`key:${i}`);
+
+    for (const [key, node] of placed) {
+      expect(ring.get(key)).toBe(node);
+    }
+  });
+
+  test('release frees capacity', () => {
+    const node = ring.acquire('session:1')!;
+    const spill = ring.acquire('session:1')!;
+    expect(spill).not.toBe(node);
+
+    ring.release('session:1');
+    expect(ring.getLoad(spill)).toBe(0);
+    expect(ring.getLoad(node)).toBe(1);
+    ring.release('session:1');
+    expect(ring.getLoad(node)).toBe(0);
+    ring.release('session:1');
+    expect(ring.getLoad(node)).toBe(0);
+  });
+
+  test('respects weights', () => {
+    const weighted = new HashOrbit({ capacityFactor: 1.1 });
+    weighted.add('small');
+    weighted.add('large', { weight: 3 });
+    for (let i = 0; i < 1000; i++) weighted.acquire(`key:${i}`);
+
+    expect(weighted.getLoad('small')).toBeLessThanOrEqual(Math.ceil(1.1 * 1000 * 0.25));
+    expect(weighted.getLoad('large')).toBeLessThanOrEqual(Math.ceil(1.1 * 1000 * 0.75));
+  });
+
+  test('removing a node drops its load and assignments', () => {
+    for (let i = 0; i < 100; i++) ring.acquire(`key:${i}`);
+    const held = Array.from({ length: 100 }, (_, i) => `key:${i}`).filter(
+      (key) => ring.get(key) === 'node-a'
+    );
+    ring.remove('node-a');
+
+    expect(ring.getLoad('node-a')).toBeUndefined();
+    expect(nodes.slice(1).reduce((sum, node) => sum + ring.getLoad(node)!, 0)).toBe(
+      100 - held.length
+    );
+    for (const key of held) {
+      expect(ring.get(key)).not.toBe('node-a');
+      ring.acquire(key);
+    }
+    expect(maxLoad(ring)).toBeLessThanOrEqual(Math.ceil((1.25 * 100) / 4));
+  });
+
+  test('lookups in a batch skip nodes removed in it', () => {
+    const small = new HashOrbit({ capacityFactor: 1 });
+    small.addAll(['node-a', 'node-b']);
+    small.batch(() => {
+      small.remove('node-a');
+      small.remove('node-b');
+      small.add('node-c');
+      expect(small.get('key:1')).toBeUndefined();
+    });
+    expect(small.get('key:1')).toBe('node-c');
+
+    ring.batch(() => {
+      ring.remove('node-a');
+      ring.add('node-f');
+      for (let i = 0; i < 100; i++) {
+        expect(['node-b', 'node-c', 'node-d', 'node-e']).toContain(ring.acquire(`key:${i}`));
+      }
+    });
+    expect(ring.getLoad('node-f')).toBe(0);
+  });
+
+  test('returns undefined on an empty ring', () => {
+    const empty = new HashOrbit({ capacityFactor: 1.5 });
+    expect(empty.acquire('key')).toBeUndefined();
+    expect(empty.get('key')).toBeUndefined();
+  });
+
+  test('serializes the capacity factor but not live loads', () => {
+    ring.acquire('key:1');
+    const json = ring.toJSON();
+    expect(json.capacityFactor).toBe(1.25);
+
+    const restored = HashOrbit.fromJSON(json);
+    expect(restored.getLoad('node-a')).toBe(0);
+    expect(() => restored.acquire('key:1')).not.toThrow();
+    expect(new HashOrbit().toJSON().capacityFactor).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test, expect } from 'vitest';
+import { HashOrbit } from '../src/index.js';
+
+// Stub hash that forces collisions: virtual node `${node}:${i}` lands on
+// position i * 1000 for every node (nodes named "solo-*" are offset by 500),
+// and numeric keys hash to their own value
+function collidingHash(input: string): number {
+  const separator = input.lastIndexOf(':');
+  if (separator === -1) return Number(input);
+  const index = Number(input.slice(separator + 1));
+  return index * 1000 + (input.startsWith('solo-') ? 500 : 0);
+}
+
+const keys = Array.from({ length: 40 }, (_, i) => String(i * 125));
+
+function assignments(ring: HashOrbit): Array<[string | undefined, string[]]> {
+  return keys.map((key) => [ring.get(key), ring.getN(key, 3)]);
+}
+
+function build(operations: Array<['add' | 'remove', string]>): HashOrbit {
+  const ring = new HashOrbit({ replicas: 4, hash: collidingHash });
+  for (const [operation, node] of operations) {
+    ring[operation](node);
+  }
+  return ring;
+}
+
+describe('virtual node collisions', () => {
+  test('colliding positions are counted once', () => {
+    const ring = build([
+      ['add', 'a'],
+      ['add', 'b'],
+      ['add', 'solo-1'],
+    ]);
+    expect(ring.toString()).toContain('positions=8');
+    expect(ring.size).toBe(3);
+  });
+
+  test('lowest node identifier owns a shared position', () => {
+    const ring = build([
+      ['add', 'b'],
+      ['add', 'a'],
+    ]);
+    expect(ring.get('1000')).toBe('a');
+    expect(ring.getN('1000', 2)).toEqual(['a']);
+  });
+
+  test('ownership is independent of insertion order', () => {
+    const expected = assignments(
+      build([
+        ['add', 'a'],
+        ['add', 'b'],
+        ['add', 'c'],
+        ['add', 'solo-1'],
+      ])
+    );
+
+    for (const order of [
+      ['c', 'b', 'a', 'solo-1'],
+      ['solo-1', 'b', 'c', 'a'],
+      ['b', 'solo-1', 'a', 'c'],
+    ]) {
+      const ring = build(order.map((node) => ['add', node]));
+      expect(assignments(ring)).toEqual(expected);
+    }
+  });
+
+  test('removing a node restores the remaining claimant', () => {
+    const ring = build([
+      ['add', 'a'],
+      ['add', 'b'],
+      ['remove', 'b'],
+    ]);
+    expect(ring.toString()).toContain('positions=4');
+    expect(keys.every((key) => ring.get(key) === 'a')).toBe(true);
+  });
+
+  test('removing the owner hands positions to the next claimant', () => {
+    const ring = build([
+      ['add', 'a'],
+      ['add', 'b'],
+      ['add', 'c'],
+      ['remove', 'a'],
+    ]);
+    expect(ring.toString()).toContain('positions=4');
+    expect(keys.every((key) => ring.get(key) === 'b')).toBe(true);
+  });
+
+  test('add/remove history does not affect assignments', () => {
+    const direct = build([
+      ['add', 'b'],
+      ['add', 'solo-1'],
+    ]);
+
+    const histories: Array<Array<['add' | 'remove', string]>> = [
+      [
+        ['add', 'a'],
+        ['add', 'b'],
+        ['add', 'solo-1'],
+        ['remove', 'a'],
+      ],
+      [
+        ['add', 'c'],
+        ['add', 'solo-1'],
+        ['add', 'a'],
+        ['remove', 'c'],
+        ['add', 'b'],
+        ['remove', 'a'],
+      ],
+    ];
+
+    for (const history of histories) {
+      expect(assignments(build(history))).toEqual(assignments(direct));
+    }
+  });
+
+  test('shrinking a weight releases only the dropped virtual nodes', () => {
+    const ring = new HashOrbit({ replicas: 4, hash: collidingHash });
+    ring.add('a', { weight: 2 });
+    ring.add('b');
+    ring.setWeight('a', 1);
+
+    // Positions 0-3000 are still shared; 4000-7000 belonged to a alone
+    expect(ring.toString()).toContain('positions=4');
+    expect(ring.get('1000')).toBe('a');
+
+    ring.remove('a');
+    expect(keys.every((key) => ring.get(key) === 'b')).toBe(true);
+  });
+
+  test("a node's own colliding virtual nodes are listed once", () => {
+    // Every virtual node of "dup" lands on position 100
+    const ring = new HashOrbit({
+      replicas: 4,
+      hash: (input) => (input.startsWith('dup:') ? 100 : collidingHash(input)),
+    });
+    ring.add('dup');
+    ring.add('solo-1');
+
+    expect(ring.positionsOf('dup')).toEqual([100]);
+    expect(ring.rangesOf('dup')).toEqual([
+      { start: 0, end: 101 },
+      { start: 3501, end: 0x100000000 },
+    ]);
+    expect(ring.rangesOf('solo-1')).toEqual([{ start: 101, end: 3501 }]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, murmur3, type RingDiff } from '../src/index.js';
+import { copy } from './helpers.js';
+
+const keys = Array.from({ length: 3000 }, (_, i) => `key:${i}`);
+
+function rangeOf(diff: RingDiff, key: string) {
+  const hash = murmur3(key);
+  return diff.ranges.find((range) => range.start <= hash && hash <= range.end);
+}
+
+// A key moved if and only if its hash lies in a range with matching owners
+function expectExact(before: HashOrbit, after: HashOrbit, diff: RingDiff): void {
+  for (const key of keys) {
+    const range = rangeOf(diff, key);
+    if (before.get(key) === after.get(key)) {
+      expect(range).toBeUndefined();
+    } else {
+      expect(range).toMatchObject({ from: before.get(key), to: after.get(key) });
+    }
+  }
+}
+
+describe('HashOrbit.diff()', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ['node-a', 'node-b', 'node-c', 'node-d'].forEach((node) => ring.add(node));
+  });
+
+  test('identical rings have no moved ranges', () => {
+    expect(HashOrbit.diff(ring, copy(ring))).toEqual({ ranges: [], fractionMoved: 0 });
+  });
+
+  test('adding a node moves ranges to it', () => {
+    const before = copy(ring);
+    ring.add('node-e');
+    const diff = HashOrbit.diff(before, ring);
+
+    expect(diff.ranges.length).toBeGreaterThan(0);
+    expect(diff.ranges.every((range) => range.to === 'node-e')).toBe(true);
+    expect(diff.fractionMoved).toBeCloseTo(1 / 5, 1);
+    expectExact(before, ring, diff);
+  });
+
+  test('removing a node moves only its ranges', () => {
+    const before = copy(ring);
+    ring.remove('node-b');
+    const diff = HashOrbit.diff(before, ring);
+
+    expect(diff.ranges.every((range) => range.from === 'node-b')).toBe(true);
+    expect(diff.fractionMoved).toBeCloseTo(1 / 4, 1);
+    expectExact(before, ring, diff);
+  });
+
+  test('weight changes move ranges to or from the node', () => {
+    const before = copy(ring);
+    ring.setWeight('node-c', 2);
+    const diff = HashOrbit.diff(before, ring);
+
+    expect(diff.ranges.every((range) => range.to === 'node-c')).toBe(true);
+    expectExact(before, ring, diff);
+  });
+
+  test('ranges are sorted, disjoint and merged', () => {
+    const before = copy(ring);
+    ring.add('node-e');
+    ring.remove('node-a');
+    const { ranges, fractionMoved } = HashOrbit.diff(before, ring);
+
+    let covered = 0;
+    ranges.forEach((range, i) => {
+      expect(range.start).toBeLessThanOrEqual(range.end);
+      covered += range.end - range.start + 1;
+      const previous = ranges[i - 1];
+      if (!previous) return;
+      expect(range.start).toBeGreaterThan(previous.end);
+      const adjacent = range.start === previous.end + 1;
+      expect(adjacent && range.from === previous.from && range.to === previous.to).toBe(false);
+    });
+    expect(fractionMoved).toBe(covered / 2 ** 32);
+    expectExact(before, ring, HashOrbit.diff(before, ring));
+  });
+
+  test('covers the whole keyspace from or to an empty ring', () => {
+    const empty = new HashOrbit();
+    const diff = HashOrbit.diff(empty, ring);
+
+    expect(diff.fractionMoved).toBe(1);
+    expect(diff.ranges[0]!.start).toBe(0);
+    expect(diff.ranges[diff.ranges.length - 1]!.end).toBe(0xffffffff);
+    expect(diff.ranges.every((range) => range.from === undefined)).toBe(true);
+    expect(HashOrbit.diff(ring, empty).ranges.every((range) => range.to === undefined)).toBe(true);
+    expect(HashOrbit.diff(empty, new HashOrbit())).toEqual({ ranges: [], fractionMoved: 0 });
+  });
+
+  test('handles the range that wraps around the top of the keyspace', () => {
+    const single = new HashOrbit({ replicas: 1 });
+    single.add('only');
+    const before = copy(single);
+    single.add('other');
+    const diff = HashOrbit.diff(before, single);
+
+    // One arc moves, split in two if it crosses the top of the keyspace
+    expect(diff.ranges.length).toBeLessThanOrEqual(2);
+    expectExact(before, single, diff);
+  });
+
+  test('works with compatibility profiles', () => {
+    const ketama = new HashOrbit({ profile: 'ketama' });
+    ['10.0.0.1:11211', '10.0.0.2:11211'].forEach((node) => ketama.add(node));
+    const before = copy(ketama);
+    ketama.add('10.0.0.3:11211');
+
+    const diff = HashOrbit.diff(before, ketama);
+    expect(diff.fractionMoved).toBeCloseTo(1 / 3, 1);
+    expect(diff.ranges.every((range) => range.to === '10.0.0.3:11211')).toBe(true);
+  });
+
+  test('rejects rings with different hashes', () => {
+    expect(() => HashOrbit.diff(ring, new HashOrbit({ hash: 'fnv1a' }))).toThrow(
+      'Cannot diff rings with different hash functions'
+    );
+  });
+
+  test('rejects multi-probe rings', () => {
+    expect(() => HashOrbit.diff(ring, new HashOrbit({ probes: 21 }))).toThrow(
+      'Cannot diff rings in multi-probe mode'
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { HashOrbit, type RingDiff } from '../src/index.js';
+import { copy } from './helpers.js';
+
+describe('Membership events', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ['node-a', 'node-b', 'node-c'].forEach((node) => ring.add(node));
+  });
+
+  test('nodeAdded fires with the node and weight', () => {
+    const listener = vi.fn();
+    ring.on('nodeAdded', listener);
+    ring.add('node-d', { weight: 2 });
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith({ node: 'node-d', weight: 2 });
+  });
+
+  test('nodeRemoved fires only for nodes in the ring', () => {
+    const listener = vi.fn();
+    ring.on('nodeRemoved', listener);
+    ring.remove('node-b');
+    ring.remove('node-x');
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith({ node: 'node-b', weight: 1 });
+  });
+
+  test('weightChanged fires with the previous weight', () => {
+    const listener = vi.fn();
+    ring.on('weightChanged', listener);
+    ring.setWeight('node-a', 3);
+    ring.setWeight('node-a', 3);
+    ring.add('node-a', { weight: 0.5 });
+
+    expect(listener.mock.calls).toEqual([
+      [{ node: 'node-a', weight: 3, previousWeight: 1 }],
+      [{ node: 'node-a', weight: 0.5, previousWeight: 3 }],
+    ]);
+  });
+
+  test('listeners see the ring after the change', () => {
+    ring.on('nodeAdded', ({ node }) => {
+      expect(ring.nodes).toContain(node);
+      expect(ring.toString()).toContain('positions=600');
+    });
+    ring.add('node-d');
+    expect.assertions(2);
+  });
+
+  test('changed reports the same ranges as diff()', () => {
+    const diffs: RingDiff[] = [];
+    ring.on('changed', (diff) => diffs.push(diff));
+
+    const before = copy(ring);
+    ring.add('node-d');
+    expect(diffs).toEqual([HashOrbit.diff(before, ring)]);
+    expect(diffs[0]!.ranges.every((range) => range.to === 'node-d')).toBe(true);
+  });
+
+  test('changed is not emitted when nothing moves', () => {
+    const listener = vi.fn();
+    ring.on('changed', listener);
+    ring.remove('node-x');
+    ring.batch(() => {
+      ring.remove('node-a');
+      ring.add('node-a');
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('a batch emits node events when it ends, then one changed event', () => {
+    const events: string[] = [];
+    ring.on('nodeAdded', ({ node }) => events.push(`added ${node}`));
+    ring.on('nodeRemoved', ({ node }) => events.push(`removed ${node}`));
+    ring.on('changed', () => events.push('changed'));
+
+    const before = copy(ring);
+    let diff: RingDiff | undefined;
+    ring.on('changed', (event) => (diff = event));
+    ring.batch(() => {
+      ring.addAll(['node-d', 'node-e']);
+      ring.remove('node-a');
+      expect(events).toEqual([]);
+    });
+
+    expect(events).toEqual(['added node-d', 'added node-e', 'removed node-a', 'changed']);
+    expect(diff).toEqual(HashOrbit.diff(before, ring));
+  });
+
+  test('changed tracks owners when a removed node slot is reused', () => {
+    let diff: RingDiff | undefined;
+    ring.on('changed', (event) => (diff = event));
+
+    const before = copy(ring);
+    ring.batch(() => {
+      ring.remove('node-b');
+      ring.add('node-z');
+    });
+    expect(diff).toEqual(HashOrbit.diff(before, ring));
+  });
+
+  test('off() unsubscribes a listener', () => {
+    const listener = vi.fn();
+    ring.on('nodeAdded', listener);
+    ring.on('nodeAdded', listener);
+    ring.add('node-d');
+    ring.off('nodeAdded', listener);
+    ring.add('node-e');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('multi-probe rings emit node events but not changed', () => {
+    const probed = new HashOrbit({ probes: 5 });
+    const added = vi.fn();
+    const changed = vi.fn();
+    probed.on('nodeAdded', added);
+    probed.on('changed', changed);
+    probed.addAll(['node-a', 'node-b']);
+
+    expect(added).toHaveBeenCalledTimes(2);
+    expect(changed).not.toHaveBeenCalled();
+  });
+});
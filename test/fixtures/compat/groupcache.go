@@ -0,0 +1,104 @@
+// groupcache reference vectors
+//
+// Map below is github.com/golang/groupcache/consistenthash (Apache 2.0),
+// reproduced verbatim apart from the package clause and the vector output.
+//
+// Run: GO111MODULE=off go run groupcache.go > ../groupcache.json
+package main
+
+import (
+	"encoding/json"
+	"hash/crc32"
+	"os"
+	"sort"
+	"strconv"
+)
+
+type Hash func(data []byte) uint32
+
+type Map struct {
+	hash     Hash
+	replicas int
+	keys     []int // Sorted
+	hashMap  map[int]string
+}
+
+func New(replicas int, fn Hash) *Map {
+	m := &Map{
+		replicas: replicas,
+		hash:     fn,
+		hashMap:  make(map[int]string),
+	}
+	if m.hash == nil {
+		m.hash = crc32.ChecksumIEEE
+	}
+	return m
+}
+
+// Add adds some keys to the hash.
+func (m *Map) Add(keys ...string) {
+	for _, key := range keys {
+		for i := 0; i < m.replicas; i++ {
+			hash := int(m.hash([]byte(strconv.Itoa(i) + key)))
+			m.keys = append(m.keys, hash)
+			m.hashMap[hash] = key
+		}
+	}
+	sort.Ints(m.keys)
+}
+
+// Get gets the closest item in the hash to the provided key.
+func (m *Map) Get(key string) string {
+	if len(m.keys) == 0 {
+		return ""
+	}
+
+	hash := int(m.hash([]byte(key)))
+
+	// Binary search for appropriate replica.
+	idx := sort.Search(len(m.keys), func(i int) bool { return m.keys[i] >= hash })
+
+	// Means we have cycled back to the first replica.
+	if idx == len(m.keys) {
+		idx = 0
+	}
+
+	return m.hashMap[m.keys[idx]]
+}
+
+type scenario struct {
+	Name        string            `json:"name"`
+	Replicas    int               `json:"replicas"`
+	Peers       []string          `json:"peers"`
+	Assignments map[string]string `json:"assignments"`
+}
+
+func main() {
+	scenarios := []scenario{
+		{Name: "groupcache HTTPPool defaults", Replicas: 50, Peers: []string{
+			"http://10.0.0.1:8080", "http://10.0.0.2:8080", "http://10.0.0.3:8080"}},
+		{Name: "few replicas", Replicas: 3, Peers: []string{"a", "b", "c", "d"}},
+		{Name: "many peers", Replicas: 150, Peers: []string{
+			"worker-1", "worker-2", "worker-3", "worker-4", "worker-5", "worker-6"}},
+	}
+
+	for i := range scenarios {
+		m := New(scenarios[i].Replicas, nil)
+		m.Add(scenarios[i].Peers...)
+		scenarios[i].Assignments = make(map[string]string)
+		for k := 0; k < 100; k++ {
+			key := "key:" + strconv.Itoa(k)
+			if k%10 == 9 {
+				key = "ключ:" + strconv.Itoa(k)
+			}
+			scenarios[i].Assignments[key] = m.Get(key)
+		}
+	}
+
+	encoder := json.NewEncoder(os.Stdout)
+	encoder.SetIndent("", "  ")
+	encoder.Encode(map[string]interface{}{
+		"source":    "test/fixtures/compat/groupcache.go",
+		"scenarios": scenarios,
+	})
+}
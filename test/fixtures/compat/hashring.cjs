@@ -0,0 +1,46 @@
+/*
+ * hashring reference vectors
+ *
+ * Runs the hashring npm package itself (3.2.0), which is not a dependency.
+ *
+ * Run: npm install --no-save hashring@3.2.0 && node hashring.cjs > ../hashring.json
+ */
+
+const HashRing = require('hashring');
+
+const scenarios = [
+  {
+    name: 'three equal servers',
+    servers: { '127.0.0.1:11211': 1, '127.0.0.2:11211': 1, '127.0.0.3:11211': 1 },
+  },
+  {
+    name: 'weighted servers',
+    servers: { 'cache-a:11211': 100, 'cache-b:11211': 200, 'cache-c:11211': 700 },
+  },
+  {
+    // floor(1 / 7 * 40 * 7) is 39 in double precision, so each server gets 156 points
+    name: 'seven equal servers',
+    servers: Object.fromEntries(Array.from({ length: 7 }, (_, i) => [`10.1.0.${i + 1}:11211`, 1])),
+  },
+];
+
+const keys = Array.from({ length: 100 }, (_, k) => (k % 10 === 9 ? `ключ:${k}` : `key:${k}`));
+
+const output = scenarios.map(({ name, servers }) => {
+  const ring = new HashRing(servers);
+  const points = ring.points();
+  return {
+    name,
+    servers: Object.entries(servers).map(([server, weight]) => ({
+      name: server,
+      weight,
+      points: points[server].length,
+    })),
+    assignments: Object.fromEntries(keys.map((key) => [key, ring.get(key)])),
+    ranges: Object.fromEntries(keys.slice(0, 20).map((key) => [key, ring.range(key, 3)])),
+  };
+});
+
+process.stdout.write(
+  JSON.stringify({ source: 'test/fixtures/compat/hashring.cjs', scenarios: output }, null, 2) + '\n'
+);
@@ -0,0 +1,133 @@
+/*
+ * Ketama reference vectors
+ *
+ * Port of the weighted continuum built by libmemcached (update_continuum with
+ * MEMCACHED_BEHAVIOR_KETAMA_WEIGHTED) and twemproxy (ketama_update), using the
+ * same single-precision arithmetic and OpenSSL MD5.
+ *
+ * Build: cc ketama.c -lcrypto -lm -o ketama && ./ketama > ../ketama.json
+ */
+
+#define OPENSSL_SUPPRESS_DEPRECATED
+
+#include <math.h>
+#include <stdint.h>
+#include <stdio.h>
+#include <stdlib.h>
+#include <string.h>
+#include <openssl/md5.h>
+
+#define POINTS_PER_SERVER 160
+#define POINTS_PER_HASH 4
+#define KEY_COUNT 100
+
+typedef struct {
+  const char *name;
+  uint32_t weight;
+} server_t;
+
+typedef struct {
+  uint32_t value;
+  uint32_t index;
+} point_t;
+
+static uint32_t ketama_hash(const char *key, size_t len, uint32_t alignment) {
+  unsigned char digest[16];
+  MD5((const unsigned char *)key, len, digest);
+  return ((uint32_t)(digest[3 + alignment * 4] & 0xFF) << 24) |
+         ((uint32_t)(digest[2 + alignment * 4] & 0xFF) << 16) |
+         ((uint32_t)(digest[1 + alignment * 4] & 0xFF) << 8) |
+         (digest[0 + alignment * 4] & 0xFF);
+}
+
+static int compare_points(const void *a, const void *b) {
+  const point_t *left = a;
+  const point_t *right = b;
+  if (left->value == right->value) return 0;
+  return left->value > right->value ? 1 : -1;
+}
+
+static void scenario(const char *name, const server_t *servers, uint32_t count, int last) {
+  uint32_t total_weight = 0;
+  for (uint32_t i = 0; i < count; i++) total_weight += servers[i].weight;
+
+  point_t *continuum = malloc(sizeof(point_t) * POINTS_PER_SERVER * count * 8);
+  uint32_t *points = calloc(count, sizeof(uint32_t));
+  uint32_t size = 0;
+
+  for (uint32_t i = 0; i < count; i++) {
+    float pct = (float)servers[i].weight / (float)total_weight;
+    uint32_t pointer_per_server =
+        (uint32_t)((floorf((float)(pct * POINTS_PER_SERVER / 4 * (float)count + 0.0000000001))) *
+                   4);
+    points[i] = pointer_per_server;
+
+    for (uint32_t pointer = 0; pointer < pointer_per_server / POINTS_PER_HASH; pointer++) {
+      char host[256];
+      int length = snprintf(host, sizeof(host), "%s-%u", servers[i].name, pointer);
+      for (uint32_t x = 0; x < POINTS_PER_HASH; x++) {
+        continuum[size].value = ketama_hash(host, (size_t)length, x);
+        continuum[size].index = i;
+        size++;
+      }
+    }
+  }
+
+  qsort(continuum, size, sizeof(point_t), compare_points);
+
+  printf("    {\n      \"name\": \"%s\",\n      \"servers\": [", name);
+  for (uint32_t i = 0; i < count; i++) {
+    printf("%s{ \"name\": \"%s\", \"weight\": %u, \"points\": %u }", i ? ", " : "",
+           servers[i].name, servers[i].weight, points[i]);
+  }
+  printf("],\n      \"continuum\": [");
+  for (uint32_t i = 0; i < 8; i++) {
+    printf("%s[%u, \"%s\"]", i ? ", " : "", continuum[i].value,
+           servers[continuum[i].index].name);
+  }
+  printf("],\n      \"assignments\": {");
+  for (uint32_t k = 0; k < KEY_COUNT; k++) {
+    char key[64];
+    int length = k % 10 == 9 ? snprintf(key, sizeof(key), "ключ:%u", k)
+                             : snprintf(key, sizeof(key), "key:%u", k);
+    uint32_t hash = ketama_hash(key, (size_t)length, 0);
+
+    /* Lower bound with wraparound, as in libmemcached's dispatch_host */
+    uint32_t left = 0;
+    uint32_t right = size;
+    while (left < right) {
+      uint32_t middle = left + (right - left) / 2;
+      if (continuum[middle].value < hash) {
+        left = middle + 1;
+      } else {
+        right = middle;
+      }
+    }
+    if (right == size) right = 0;
+
+    printf("%s\"%s\": \"%s\"", k ? ", " : "", key, servers[continuum[right].index].name);
+  }
+  printf("}\n    }%s\n", last ? "" : ",");
+
+  free(points);
+  free(continuum);
+}
+
+int main(void) {
+  const server_t equal[] = {
+      {"10.0.1.1:11211", 1}, {"10.0.1.2:11211", 1}, {"10.0.1.3:11211", 1}};
+  const server_t weighted[] = {{"cache-a.example.com:11211", 100},
+                               {"cache-b.example.com:11211", 200},
+                               {"cache-c.example.com:11211", 300},
+                               {"cache-d.example.com:11211", 500}};
+  const server_t seven[] = {{"mc1:11211", 1}, {"mc2:11211", 1}, {"mc3:11211", 1},
+                            {"mc4:11211", 1}, {"mc5:11211", 1}, {"mc6:11211", 1},
+                            {"mc7:11211", 3}};
+
+  printf("{\n  \"source\": \"test/fixtures/compat/ketama.c\",\n  \"scenarios\": [\n");
+  scenario("three equal servers", equal, 3, 0);
+  scenario("four weighted servers", weighted, 4, 0);
+  scenario("seven servers, one heavy", seven, 7, 1);
+  printf("  ]\n}\n");
+  return 0;
+}
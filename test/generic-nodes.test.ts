@@ -0,0 +1,239 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { HashOrbit, TransitionRing, type NodeCodec } from '../src/index.js';
+
+interface Server {
+  id: string;
+  address: string;
+  zone: string;
+}
+
+const servers: Server[] = [
+  { id: 'node-a', address: '10.0.0.1:6379', zone: 'us-east-1a' },
+  { id: 'node-b', address: '10.0.0.2:6379', zone: 'us-east-1b' },
+  { id: 'node-c', address: '10.0.0.3:6379', zone: 'us-east-1c' },
+];
+
+const codec: NodeCodec<Server> = {
+  encode: ({ address, zone }) => ({ address, zone }),
+  decode: (data, id) => ({ id, ...(data as Omit<Server, 'id'>) }),
+};
+
+const keys = Array.from({ length: 500 }, (_, i) => `key:${i}`);
+
+describe('Generic nodes', () => {
+  let ring: HashOrbit<Server>;
+  let plain: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit<Server>({ key: (server) => server.id, codec });
+    ring.addAll(servers);
+    plain = new HashOrbit();
+    plain.addAll(servers.map((server) => server.id));
+  });
+
+  test('lookups return node objects placed by identifier', () => {
+    for (const key of keys) {
+      expect(ring.get(key)).toBe(servers.find((server) => server.id === plain.get(key)));
+      expect(ring.getN(key, 2).map((server) => server.id)).toEqual(plain.getN(key, 2));
+    }
+    expect(ring.nodes).toEqual(servers);
+    expect(ring.nodes[0]).toBe(servers[0]);
+  });
+
+  test('nodes can be referred to by object or identifier', () => {
+    ring.setWeight('node-a', 2);
+    expect(ring.getWeight(servers[0]!)).toBe(2);
+    expect(ring.has('node-b')).toBe(true);
+    expect(ring.getNode('node-c')).toBe(servers[2]);
+    expect(ring.getNode('node-x')).toBeUndefined();
+
+    ring.remove('node-a');
+    ring.remove(servers[1]!);
+    expect(ring.nodes).toEqual([servers[2]]);
+  });
+
+  test('re-adding a node replaces its object', () => {
+    const moved = { ...servers[0]!, address: '10.0.1.1:6379' };
+    const before = keys.map((key) => ring.get(key)!.id);
+    const snapshot = ring.snapshot();
+    ring.add(moved);
+
+    expect(ring.version).toBe(snapshot.version + 1);
+    expect(ring.getNode('node-a')).toBe(moved);
+    expect(keys.map((key) => ring.get(key)!.id)).toEqual(before);
+    expect(snapshot.getNode('node-a')).toBe(servers[0]);
+    expect(ring.snapshot().getNode('node-a')).toBe(moved);
+  });
+
+  test('object nodes need a key extractor', () => {
+    const unkeyed = new HashOrbit<Server>();
+    expect(() => unkeyed.add(servers[0]!)).toThrow(
+      'Node objects need a key extractor; set the key option'
+    );
+    expect(() => unkeyed.addAll(servers)).toThrow('Node objects need a key extractor');
+    expect(unkeyed.size).toBe(0);
+  });
+
+  test('identifiers are validated', () => {
+    expect(() => ring.add({ ...servers[0]!, id: '' })).toThrow('Node identifier cannot be empty');
+  });
+
+  test('events, stats and introspection report node objects', () => {
+    const added = vi.fn();
+    const removed = vi.fn();
+    ring.on('nodeAdded', added);
+    ring.on('nodeRemoved', removed);
+    const extra = { id: 'node-d', address: '10.0.0.4:6379', zone: 'us-east-1a' };
+    ring.add(extra);
+    ring.remove('node-a');
+
+    expect(added).toHaveBeenCalledWith({ node: extra, weight: 1 });
+    expect(removed).toHaveBeenCalledWith({ node: servers[0], weight: 1 });
+    expect(ring.stats().nodes.map((stats) => stats.node)).toEqual([servers[1], servers[2], extra]);
+    expect(ring.ownerOf(ring.hashKey('key:1'))).toBe(ring.get('key:1'));
+    expect(new Set([...ring].map(({ node }) => node))).toEqual(new Set(ring.nodes));
+  });
+
+  test('lookups in a batch still resolve removed nodes', () => {
+    ring.batch(() => {
+      ring.remove('node-a');
+      expect(keys.every((key) => ring.get(key) !== undefined)).toBe(true);
+    });
+    expect(keys.some((key) => ring.get(key) === servers[0])).toBe(false);
+  });
+
+  test('toJSON() encodes nodes with the codec and fromJSON() decodes them', () => {
+    ring.setWeight('node-b', 2);
+    const json = JSON.parse(JSON.stringify(ring.toJSON()));
+
+    expect(json.nodes).toEqual(['node-a', 'node-b', 'node-c']);
+    expect(json.metadata['node-a']).toEqual({ address: '10.0.0.1:6379', zone: 'us-east-1a' });
+
+    const restored = HashOrbit.fromJSON(json, { key: (server) => server.id, codec });
+    expect(restored.nodes).toEqual(servers);
+    expect(restored.getWeight('node-b')).toBe(2);
+    expect(keys.map((key) => restored.get(key))).toEqual(keys.map((key) => ring.get(key)));
+  });
+
+  test('encoded nodes cannot be restored without the codec', () => {
+    expect(() => HashOrbit.fromJSON(ring.toJSON())).toThrow(
+      'Node "node-a" was serialized with a codec; pass the codec to restore it'
+    );
+  });
+
+  test('node objects cannot be restored as identifiers', () => {
+    const uncoded = new HashOrbit<Server>({ key: (server) => server.id, operationLog: true });
+    uncoded.addAll(servers);
+    const key = (server: Server) => server.id;
+
+    // @ts-expect-error a key extractor needs a codec
+    expect(() => HashOrbit.fromJSON(uncoded.toJSON(), { key })).toThrow(
+      'Restoring node objects needs a codec; pass the codec option'
+    );
+    // @ts-expect-error a key extractor needs a codec
+    expect(() => HashOrbit.replay(uncoded.getLog(), { key })).toThrow(
+      'Restoring node objects needs a codec'
+    );
+    uncoded.add({ ...servers[0]!, address: '10.0.1.1:6379' });
+    expect(() => uncoded.compactLog(1)).not.toThrow();
+  });
+
+  test('without a codec only identifiers are serialized', () => {
+    const uncoded = new HashOrbit<Server>({ key: (server) => server.id });
+    uncoded.addAll(servers);
+
+    expect(uncoded.toJSON()).toEqual(plain.toJSON());
+    expect(HashOrbit.fromJSON(uncoded.toJSON()).nodes).toEqual(['node-a', 'node-b', 'node-c']);
+  });
+
+  test('the operation log replays node objects', () => {
+    const logged = new HashOrbit<Server>({ key: (server) => server.id, codec, operationLog: true });
+    logged.add(servers[0]!);
+    logged.compactLog();
+    logged.addAll(servers.slice(1));
+    logged.remove('node-a');
+
+    const { operations } = logged.getLog();
+    expect(operations[0]).toMatchObject({
+      type: 'add',
+      node: 'node-b',
+      metadata: codec.encode(servers[1]!),
+    });
+    expect(operations[2]).not.toHaveProperty('metadata');
+
+    const replayed = HashOrbit.replay(logged.getLog(), { key: (server) => server.id, codec });
+    expect(replayed.nodes).toEqual(servers.slice(1));
+    expect(
+      HashOrbit.replay(logged.getLog(), { version: 1, key: (server) => server.id, codec }).nodes
+    ).toEqual([servers[0]]);
+  });
+
+  test('the operation log records replaced node objects', () => {
+    const logged = new HashOrbit<Server>({ key: (server) => server.id, codec, operationLog: true });
+    logged.add(servers[0]!);
+    const version = logged.version;
+    logged.add({ ...servers[0]!, address: '10.0.1.1:6379' });
+    logged.add({ ...servers[0]!, address: '10.0.1.1:6379' }, { weight: 2 });
+
+    const replayed = HashOrbit.replay(logged.getLog(), { key: (server) => server.id, codec });
+    expect(replayed.getNode('node-a')!.address).toBe('10.0.1.1:6379');
+    expect(replayed.getWeight('node-a')).toBe(2);
+    expect(replayed.version).toBe(logged.version);
+    expect(
+      HashOrbit.replay(logged.getLog(), { version, key: (server) => server.id, codec }).getNode(
+        'node-a'
+      )!.address
+    ).toBe('10.0.0.1:6379');
+
+    logged.compactLog();
+    expect(logged.getLog().base).toEqual(replayed.toJSON());
+  });
+
+  test('identifier replays keep the versions of replaced node objects', () => {
+    const logged = new HashOrbit<Server>({ key: (server) => server.id, operationLog: true });
+    logged.addAll(servers);
+    logged.add({ ...servers[0]!, address: '10.0.1.1:6379' });
+
+    const replayed = HashOrbit.replay(logged.getLog());
+    expect(replayed.version).toBe(logged.version);
+
+    replayed.add('node-d');
+    expect(replayed.version).toBe(logged.version + 1);
+    expect(HashOrbit.replay(replayed.getLog(), { version: logged.version }).nodes).toEqual(
+      servers.map((server) => server.id)
+    );
+  });
+
+  test('copies share node objects', () => {
+    const extra = { id: 'node-d', address: '10.0.0.4:6379', zone: 'us-east-1a' };
+    const grown = ring.with(extra);
+    expect(grown.nodes).toEqual([...servers, extra]);
+    expect(grown.getNode('node-a')).toBe(servers[0]);
+    expect(ring.without('node-a').nodes).toEqual(servers.slice(1));
+  });
+
+  test('bounded loads place load on node objects', () => {
+    const bounded = new HashOrbit<Server>({ key: (server) => server.id, capacityFactor: 1.25 });
+    bounded.addAll(servers);
+
+    const node = bounded.acquire('session:1')!;
+    expect(servers).toContain(node);
+    expect(bounded.get('session:1')).toBe(node);
+    expect(bounded.getLoad(node)).toBe(1);
+  });
+
+  test('transitions report previous node objects', () => {
+    const extra = { id: 'node-d', address: '10.0.0.4:6379', zone: 'us-east-1a' };
+    const transition = new TransitionRing(ring, ring.with(extra));
+    const key = keys.find((k) => transition.get(k).previous !== undefined)!;
+
+    expect(transition.get(key)).toEqual({ current: extra, previous: ring.get(key) });
+    expect(transition.getN(key, 2).previous).toEqual(ring.getN(key, 2));
+
+    const restored = TransitionRing.fromJSON(JSON.parse(JSON.stringify(transition.toJSON())), {
+      key: (server: Server) => server.id,
+      codec,
+    });
+    expect(restored.get(key)).toEqual(transition.get(key));
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach } from 'vitest';
-import { HashOrbit } from '../src/index.js';
+import { HashOrbit, crc32, fnv1a, murmur3 } from '../src/index.js';
 
 describe('HashOrbit', () => {
   describe('constructor', () => {
@@ -241,6 +241,118 @@ describe('HashOrbit', () => {
     });
   });
 
+  describe('weights', () => {
+    test('weight scales the number of virtual nodes', () => {
+      const ring = new HashOrbit({ replicas: 10 });
+      ring.add('small');
+      ring.add('large', { weight: 4 });
+
+      expect(ring.toString()).toContain('positions=50');
+      expect(ring.getWeight('small')).toBe(1);
+      expect(ring.getWeight('large')).toBe(4);
+    });
+
+    test('every node keeps at least one virtual node', () => {
+      const ring = new HashOrbit({ replicas: 10 });
+      ring.add('tiny', { weight: 0.01 });
+      expect(ring.toString()).toContain('positions=1');
+      expect(ring.get('any-key')).toBe('tiny');
+    });
+
+    test('heavier nodes receive proportionally more keys', () => {
+      const ring = new HashOrbit({ replicas: 150 });
+      ring.add('16gb');
+      ring.add('64gb', { weight: 4 });
+
+      const counts = new Map<string, number>();
+      for (let i = 0; i < 5000; i++) {
+        const node = ring.get(`key:${i}`)!;
+        counts.set(node, (counts.get(node) || 0) + 1);
+      }
+
+      // Expect ~80% of keys on the 64gb node
+      expect(counts.get('64gb')! / 5000).toBeGreaterThan(0.7);
+      expect(counts.get('64gb')! / 5000).toBeLessThan(0.9);
+    });
+
+    test('setWeight() only moves keys to or from the reweighted node', () => {
+      const ring = new HashOrbit({ replicas: 100 });
+      ring.add('server-1');
+      ring.add('server-2');
+      ring.add('server-3');
+
+      const keys = Array.from({ length: 2000 }, (_, i) => `key:${i}`);
+      const before = new Map(keys.map((key) => [key, ring.get(key)]));
+
+      ring.setWeight('server-2', 2);
+      for (const key of keys) {
+        const owner = ring.get(key);
+        if (owner !== before.get(key)) expect(owner).toBe('server-2');
+      }
+
+      const grown = new Map(keys.map((key) => [key, ring.get(key)]));
+      ring.setWeight('server-2', 0.5);
+      for (const key of keys) {
+        const owner = ring.get(key);
+        if (owner !== grown.get(key)) expect(grown.get(key)).toBe('server-2');
+      }
+      expect(ring.toString()).toContain('positions=250');
+    });
+
+    test('setWeight() matches a ring built with that weight', () => {
+      const reweighted = new HashOrbit({ replicas: 20 });
+      reweighted.add('a');
+      reweighted.add('b');
+      reweighted.setWeight('b', 3);
+
+      const built = new HashOrbit({ replicas: 20 });
+      built.add('a');
+      built.add('b', { weight: 3 });
+
+      for (let i = 0; i < 200; i++) {
+        expect(reweighted.get(`key:${i}`)).toBe(built.get(`key:${i}`));
+      }
+    });
+
+    test('adding an existing node with a weight updates it', () => {
+      const ring = new HashOrbit({ replicas: 10 });
+      ring.add('server-1');
+      ring.add('server-1', { weight: 2 });
+
+      expect(ring.size).toBe(1);
+      expect(ring.getWeight('server-1')).toBe(2);
+      expect(ring.toString()).toContain('positions=20');
+
+      ring.add('server-1');
+      expect(ring.getWeight('server-1')).toBe(2);
+    });
+
+    test('removing a weighted node removes all of its virtual nodes', () => {
+      const ring = new HashOrbit({ replicas: 10 });
+      ring.add('server-1', { weight: 3 });
+      ring.remove('server-1');
+
+      expect(ring.toString()).toContain('positions=0');
+      expect(ring.getWeight('server-1')).toBeUndefined();
+    });
+
+    test.each([0, -1, NaN, Infinity])('rejects invalid weight %s', (weight) => {
+      const ring = new HashOrbit();
+      expect(() => ring.add('server-1', { weight })).toThrow(
+        'Weight must be a positive finite number'
+      );
+      ring.add('server-1');
+      expect(() => ring.setWeight('server-1', weight)).toThrow(
+        'Weight must be a positive finite number'
+      );
+    });
+
+    test('setWeight() rejects unknown nodes', () => {
+      const ring = new HashOrbit();
+      expect(() => ring.setWeight('missing', 2)).toThrow('Node "missing" is not in the ring');
+    });
+  });
+
   describe('edge cases', () => {
     test('empty ring has size 0', () => {
       const ring = new HashOrbit();
@@ -276,6 +388,30 @@ describe('HashOrbit', () => {
       expect(info).toContain('positions=100');
       expect(info).toContain('replicas=50');
     });
+
+    test('more than 65,536 nodes route to the nearest position clockwise', () => {
+      const nodes = Array.from({ length: 70000 }, (_, i) => `node-${i}`);
+      const ring = new HashOrbit({ replicas: 1 });
+      ring.addAll(nodes);
+      ring.removeAll(nodes.slice(0, 1000));
+      ring.add('node-0');
+
+      const live = ['node-0', ...nodes.slice(1000)];
+      const positions = live.map((node) => murmur3(`${node}:0`));
+      for (let k = 0; k < 20; k++) {
+        const hash = murmur3(`key:${k}`);
+        let best = 0;
+        let bestDistance = Infinity;
+        positions.forEach((position, i) => {
+          const distance = (position - hash + 0x100000000) % 0x100000000;
+          if (distance < bestDistance || (distance === bestDistance && live[i]! < live[best]!)) {
+            best = i;
+            bestDistance = distance;
+          }
+        });
+        expect(ring.get(`key:${k}`)).toBe(live[best]);
+      }
+    });
   });
 
   describe('distribution tests', () => {
@@ -377,7 +513,7 @@ describe('HashOrbit', () => {
   });
 
   describe('Serialization', () => {
-    test('toJSON returns nodes and replicas', () => {
+    test('toJSON returns nodes, replicas and hash', () => {
       const ring = new HashOrbit({ replicas: 100 });
       ring.add('server-1');
       ring.add('server-2');
@@ -388,6 +524,7 @@ describe('HashOrbit', () => {
       expect(json).toEqual({
         nodes: expect.arrayContaining(['server-1', 'server-2', 'server-3']),
         replicas: 100,
+        hash: 'murmur3',
       });
       expect(json.nodes).toHaveLength(3);
     });
@@ -428,6 +565,35 @@ describe('HashOrbit', () => {
       expect(restored.nodes).toEqual([]);
     });
 
+    test('toJSON includes non-default weights', () => {
+      const ring = new HashOrbit({ replicas: 10 });
+      ring.add('small');
+      ring.add('large', { weight: 2.5 });
+
+      expect(ring.toJSON()).toEqual({
+        nodes: ['small', 'large'],
+        replicas: 10,
+        hash: 'murmur3',
+        weights: { large: 2.5 },
+      });
+    });
+
+    test('fromJSON restores weights', () => {
+      const original = new HashOrbit({ replicas: 20 });
+      original.add('server-1');
+      original.add('server-2', { weight: 3 });
+      original.add('server-3', { weight: 0.5 });
+
+      const restored = HashOrbit.fromJSON(JSON.parse(JSON.stringify(original.toJSON())));
+
+      expect(restored.getWeight('server-2')).toBe(3);
+      expect(restored.getWeight('server-3')).toBe(0.5);
+      expect(restored.toString()).toBe(original.toString());
+      for (let i = 0; i < 200; i++) {
+        expect(restored.get(`key:${i}`)).toBe(original.get(`key:${i}`));
+      }
+    });
+
     test('serialization round-trip preserves all nodes', () => {
       const original = new HashOrbit({ replicas: 50 });
       const nodes = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
@@ -439,5 +605,83 @@ describe('HashOrbit', () => {
       expect(restored.size).toBe(nodes.length);
       expect(restored.nodes.sort()).toEqual(nodes.sort());
     });
+
+    test('toJSON records the hash algorithm', () => {
+      expect(new HashOrbit({ hash: 'xxhash32' }).toJSON().hash).toBe('xxhash32');
+      expect(new HashOrbit({ hash: fnv1a }).toJSON().hash).toBe('fnv1a');
+      expect(new HashOrbit({ hash: (input) => input.length }).toJSON().hash).toBe('custom');
+    });
+
+    test('fromJSON restores the recorded hash algorithm', () => {
+      const original = new HashOrbit({ replicas: 20, hash: 'crc32' });
+      original.add('server-1');
+      original.add('server-2');
+
+      const restored = HashOrbit.fromJSON(original.toJSON());
+      expect(restored.toJSON().hash).toBe('crc32');
+      for (let i = 0; i < 100; i++) {
+        expect(restored.get(`key:${i}`)).toBe(original.get(`key:${i}`));
+      }
+    });
+
+    test('fromJSON treats rings without a recorded hash as murmur3', () => {
+      const restored = HashOrbit.fromJSON({ nodes: ['a'], replicas: 10 });
+      expect(restored.toJSON().hash).toBe('murmur3');
+    });
+
+    test('fromJSON rejects a different hash', () => {
+      const json = new HashOrbit({ hash: 'md5' }).toJSON();
+      expect(() => HashOrbit.fromJSON(json, { hash: 'fnv1a' })).toThrow(
+        'Hash mismatch: ring was serialized with "md5" but "fnv1a" was provided'
+      );
+      expect(() => HashOrbit.fromJSON(json, { hash: (input) => input.length })).toThrow(
+        'Hash mismatch'
+      );
+    });
+
+    test('fromJSON requires custom hash functions to be passed back in', () => {
+      const custom = (input: string) => crc32(`salt:${input}`);
+      const original = new HashOrbit({ replicas: 20, hash: custom });
+      original.add('server-1');
+      original.add('server-2');
+      const json = original.toJSON();
+
+      expect(() => HashOrbit.fromJSON(json)).toThrow('custom hash function');
+      expect(() => HashOrbit.fromJSON(json, { hash: 'crc32' })).toThrow('Hash mismatch');
+
+      const restored = HashOrbit.fromJSON(json, { hash: custom });
+      for (let i = 0; i < 100; i++) {
+        expect(restored.get(`key:${i}`)).toBe(original.get(`key:${i}`));
+      }
+    });
+  });
+
+  describe('hash option', () => {
+    test('uses the configured hash for placement and lookup', () => {
+      const nodes = ['server-1', 'server-2', 'server-3'];
+      const ring = new HashOrbit({ replicas: 1, hash: 'crc32' });
+      nodes.forEach((node) => ring.add(node));
+
+      // With one virtual node each, the owner follows directly from crc32
+      const positions = nodes
+        .map((node) => [crc32(`${node}:0`), node] as const)
+        .sort((a, b) => a[0] - b[0]);
+      const keyHash = crc32('user:123');
+      const expected = (positions.find(([position]) => position >= keyHash) ?? positions[0]!)[1];
+
+      expect(ring.get('user:123')).toBe(expected);
+    });
+
+    test('custom hashes are coerced to unsigned 32-bit positions', () => {
+      const ring = new HashOrbit({ replicas: 5, hash: (input) => -input.length });
+      ring.add('server-1');
+      expect(ring.get('key')).toBe('server-1');
+    });
+
+    test('rejects unknown algorithm names', () => {
+      expect(() => new HashOrbit({ hash: 'sha1' as 'md5' })).toThrow(
+        'Unknown hash algorithm "sha1"'
+      );
+    });
   });
 });
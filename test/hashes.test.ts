@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import { crc32, fnv1a, hashFunctions, md5, murmur3, xxhash32 } from '../src/index.js';
+import { md5Digest, resolveHash } from '../src/hashes.js';
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+describe('hash functions', () => {
+  test.each([
+    ['', 0x811c9dc5],
+    ['a', 0xe40c292c],
+    ['foobar', 0xbf9cf968],
+    ['héllo 🌍', 0xd4ec456a],
+  ])('fnv1a(%j)', (input, expected) => {
+    expect(fnv1a(input)).toBe(expected);
+  });
+
+  test.each([
+    ['', 0],
+    ['123456789', 0xcbf43926],
+    ['hello world', 0x0d4a1185],
+    ['héllo 🌍', 0xdd3887da],
+  ])('crc32(%j)', (input, expected) => {
+    expect(crc32(input)).toBe(expected);
+  });
+
+  test.each([
+    ['', 0x02cc5d05],
+    ['a', 0x550d7456],
+    ['abc', 0x32d153ff],
+    ['Nobody inspects the spammish repetition', 0xe2293b2f],
+  ])('xxhash32(%j)', (input, expected) => {
+    expect(xxhash32(input)).toBe(expected);
+  });
+
+  test.each([
+    ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ['The quick brown fox jumps over the lazy dog', '9e107d9d372bb6826bd81d3542a419d6'],
+    ['a'.repeat(100), '36a92cc94a9e0fa21f625f8bfb007adf'],
+    ['héllo 🌍', 'a4115cc10566f0181d01df50100b37ff'],
+  ])('md5Digest(%j)', (input, expected) => {
+    expect(hex(md5Digest(input))).toBe(expected);
+  });
+
+  test('md5 reads the first four digest bytes little-endian', () => {
+    expect(md5('')).toBe(0xd98c1dd4);
+    expect(md5('foobar')).toBe(0x22f65838);
+  });
+
+  test('unpaired surrogates hash as U+FFFD, like TextEncoder', () => {
+    for (const fn of [fnv1a, crc32, xxhash32, md5]) {
+      expect(fn('a\ud800b')).toBe(fn('a\ufffdb'));
+      expect(fn('a\udc00')).toBe(fn('a\ufffd'));
+      expect(fn('\ud83c')).toBe(fn('\ufffd'));
+      expect(fn('🌍')).not.toBe(fn('\ufffd\ufffd'));
+    }
+  });
+
+  test('all bundled functions return unsigned 32-bit integers', () => {
+    for (const fn of [murmur3, fnv1a, crc32, xxhash32, md5]) {
+      for (const input of ['', 'key', 'server-1:0', 'x'.repeat(37)]) {
+        const value = fn(input);
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(2 ** 32);
+      }
+    }
+  });
+});
+
+describe('resolveHash()', () => {
+  test('defaults to murmur3', () => {
+    expect(resolveHash()).toEqual({ name: 'murmur3', fn: murmur3 });
+  });
+
+  test('resolves algorithm names and bundled functions to the same name', () => {
+    expect(resolveHash('crc32')).toEqual({ name: 'crc32', fn: crc32 });
+    expect(resolveHash(hashFunctions.fnv1a).name).toBe('fnv1a');
+  });
+
+  test('records other functions as custom', () => {
+    expect(resolveHash((input) => input.length).name).toBe('custom');
+  });
+
+  test('rejects unknown algorithm names', () => {
+    expect(() => resolveHash('sha1' as 'md5')).toThrow('Unknown hash algorithm "sha1"');
+  });
+});
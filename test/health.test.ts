@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { HashOrbit, type RingDiff } from '../src/index.js';
+import { copy } from './helpers.js';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `key:${i}`);
+
+describe('Node health', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b', 'node-c', 'node-d']);
+  });
+
+  test('only keys of a node marked down move', () => {
+    const before = keys.map((key) => ring.get(key));
+    ring.markDown('node-b');
+
+    keys.forEach((key, i) => {
+      const owner = ring.get(key);
+      expect(owner).not.toBe('node-b');
+      if (before[i] !== 'node-b') expect(owner).toBe(before[i]);
+    });
+  });
+
+  test('keys fail over clockwise, as if the node had been removed', () => {
+    ring.markDown('node-b');
+    const removed = ring.without('node-b');
+
+    for (const key of keys) {
+      expect(ring.get(key)).toBe(removed.get(key));
+      expect(ring.getN(key, 2)).toEqual(removed.getN(key, 2));
+    }
+  });
+
+  test('marking a node up restores the original assignments', () => {
+    const before = keys.map((key) => ring.get(key));
+    const replicas = keys.map((key) => ring.getN(key, 3));
+    ring.markDown('node-b');
+    ring.markUp('node-b');
+
+    expect(keys.map((key) => ring.get(key))).toEqual(before);
+    expect(keys.map((key) => ring.getN(key, 3))).toEqual(replicas);
+  });
+
+  test('health does not change membership or the version', () => {
+    const { version } = ring;
+    const json = ring.toJSON();
+    ring.markDown('node-a');
+
+    expect(ring.isDown('node-a')).toBe(true);
+    expect(ring.isDown('node-b')).toBe(false);
+    expect(ring.has('node-a')).toBe(true);
+    expect(ring.size).toBe(4);
+    expect(ring.positionsOf('node-a')).toHaveLength(150);
+    expect(ring.version).toBe(version);
+    expect(ring.toJSON()).toEqual(json);
+  });
+
+  test('getN() skips down nodes', () => {
+    ring.markDown('node-a');
+    ring.markDown('node-c');
+
+    for (const key of keys.slice(0, 200)) {
+      expect(ring.getN(key, 4).sort()).toEqual(['node-b', 'node-d']);
+    }
+  });
+
+  test('a ring with every node down routes nowhere', () => {
+    ring.markDown('node-a');
+    ring.markDown('node-b');
+    ring.markDown('node-c');
+    ring.markDown('node-d');
+
+    expect(ring.get('key:1')).toBeUndefined();
+    expect(ring.getN('key:1', 2)).toEqual([]);
+    expect(ring.ownerOf(ring.hashKey('key:1'))).toBeUndefined();
+  });
+
+  test('ownerOf() agrees with get() while nodes are down', () => {
+    ring.markDown('node-c');
+    for (const key of keys.slice(0, 200)) {
+      expect(ring.ownerOf(ring.hashKey(key))).toBe(ring.get(key));
+    }
+  });
+
+  test('unknown nodes are rejected', () => {
+    expect(() => ring.markDown('node-x')).toThrow('Node "node-x" is not in the ring');
+    expect(() => ring.markUp('node-x')).toThrow('Node "node-x" is not in the ring');
+    expect(ring.isDown('node-x')).toBe(false);
+  });
+
+  test('events fire when health changes', () => {
+    const down = vi.fn();
+    const up = vi.fn();
+    ring.on('nodeDown', down);
+    ring.on('nodeUp', up);
+
+    ring.markDown('node-a');
+    ring.markDown('node-a');
+    ring.markUp('node-a');
+    ring.markUp('node-a');
+
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(down).toHaveBeenCalledWith({ node: 'node-a' });
+    expect(up).toHaveBeenCalledTimes(1);
+  });
+
+  test('changed reports the keys that fail over and return', () => {
+    const changed = vi.fn<(diff: RingDiff) => void>();
+    ring.on('changed', changed);
+    const healthy = copy(ring);
+    const before = keys.map((key) => ring.get(key));
+
+    ring.markDown('node-b');
+    expect(changed).toHaveBeenCalledTimes(1);
+    const down = changed.mock.calls[0]![0];
+    expect(down).toEqual(HashOrbit.diff(healthy, ring));
+    keys.forEach((key, i) => {
+      const hash = ring.hashKey(key);
+      const range = down.ranges.find(({ start, end }) => start <= hash && hash <= end);
+      expect(range !== undefined).toBe(before[i] === 'node-b');
+      if (range) expect(range).toMatchObject({ from: 'node-b', to: ring.get(key) });
+    });
+
+    ring.markDown('node-b');
+    ring.markUp('node-b');
+    expect(changed).toHaveBeenCalledTimes(2);
+    expect(changed.mock.calls[1]![0].ranges).toEqual(
+      down.ranges.map(({ start, end, from, to }) => ({ start, end, from: to, to: from }))
+    );
+    expect(HashOrbit.diff(healthy, ring).ranges).toEqual([]);
+  });
+
+  test('removed nodes forget their health', () => {
+    ring.markDown('node-a');
+    ring.remove('node-a');
+    ring.add('node-a');
+    expect(ring.isDown('node-a')).toBe(false);
+
+    ring.markDown('node-b');
+    ring.batch(() => {
+      ring.remove('node-b');
+      ring.add('node-b');
+    });
+    expect(ring.isDown('node-b')).toBe(false);
+  });
+
+  test('snapshots and copies keep health', () => {
+    ring.markDown('node-a');
+    const snapshot = ring.snapshot();
+    const copy = ring.with('node-e');
+    ring.markUp('node-a');
+
+    expect(snapshot.isDown('node-a')).toBe(true);
+    expect(copy.isDown('node-a')).toBe(true);
+    expect(ring.snapshot().isDown('node-a')).toBe(false);
+    expect(keys.some((key) => snapshot.get(key) === 'node-a')).toBe(false);
+    expect(() => (snapshot as HashOrbit).markUp('node-a')).toThrow();
+  });
+
+  test('zone-aware replicas skip down nodes', () => {
+    const zoned = new HashOrbit();
+    zoned.add('node-a', { zone: 'us-east-1a' });
+    zoned.add('node-b', { zone: 'us-east-1a' });
+    zoned.add('node-c', { zone: 'us-east-1b' });
+    zoned.markDown('node-c');
+
+    for (const key of keys.slice(0, 200)) {
+      expect(zoned.getN(key, 2).sort()).toEqual(['node-a', 'node-b']);
+      expect(zoned.getN(key, { 'us-east-1b': 1 })).toEqual([]);
+    }
+  });
+
+  test('bounded loads drop the load of a node marked down', () => {
+    const bounded = new HashOrbit({ capacityFactor: 1.25 });
+    bounded.addAll(['node-a', 'node-b', 'node-c']);
+    const sessions = keys.slice(0, 300);
+    sessions.forEach((key) => bounded.acquire(key));
+    const moved = sessions.filter((key) => bounded.get(key) === 'node-a');
+
+    bounded.markDown('node-a');
+    expect(bounded.getLoad('node-a')).toBe(0);
+    for (const key of moved) {
+      expect(bounded.acquire(key)).not.toBe('node-a');
+    }
+    expect(bounded.getLoad('node-b')! + bounded.getLoad('node-c')!).toBe(300);
+
+    bounded.markDown('node-b');
+    bounded.markDown('node-c');
+    expect(bounded.acquire('key:new')).toBeUndefined();
+  });
+});
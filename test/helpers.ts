@@ -0,0 +1,16 @@
+import { HashOrbit, type HashStrategy } from '../src/index.js';
+
+// An independent ring with the same layout, via a serialization round trip
+export function copy(ring: HashOrbit): HashOrbit {
+  return HashOrbit.fromJSON(ring.toJSON());
+}
+
+// Load of the busiest node relative to an even spread of the keys
+export function peakToMean(strategy: HashStrategy, keys: string[]): number {
+  const counts = new Map<string, number>();
+  for (const key of keys) {
+    const node = strategy.get(key)!;
+    counts.set(node, (counts.get(node) || 0) + 1);
+  }
+  return Math.max(...counts.values()) / (keys.length / strategy.size);
+}
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, type RingRange } from '../src/index.js';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `key:${i}`);
+
+function contains(ranges: RingRange[], hash: number): boolean {
+  return ranges.some((range) => range.start <= hash && hash < range.end);
+}
+
+describe('Range and position introspection', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b', 'node-c']);
+  });
+
+  test('has() reports membership', () => {
+    expect(ring.has('node-a')).toBe(true);
+    expect(ring.has('node-x')).toBe(false);
+    ring.remove('node-a');
+    expect(ring.has('node-a')).toBe(false);
+  });
+
+  test('ownerOf() agrees with get()', () => {
+    for (const key of keys) {
+      expect(ring.ownerOf(ring.hashKey(key))).toBe(ring.get(key));
+    }
+    expect(ring.ownerOf(0)).toBeDefined();
+    expect(ring.ownerOf(0xffffffff)).toBe(ring.ownerOf(0));
+    expect(new HashOrbit().ownerOf(42)).toBeUndefined();
+  });
+
+  test('ownerOf() rejects invalid positions', () => {
+    for (const position of [-1, 2 ** 32, 1.5, NaN]) {
+      expect(() => ring.ownerOf(position)).toThrow('Position must be an unsigned 32-bit integer');
+    }
+  });
+
+  test('positionsOf() lists the positions a node owns in ring order', () => {
+    const positions = ring.positionsOf('node-a');
+    expect(positions).toHaveLength(150);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    for (const position of positions) {
+      expect(ring.ownerOf(position)).toBe('node-a');
+    }
+    expect(ring.positionsOf('node-x')).toEqual([]);
+  });
+
+  test('positionsOf() skips positions lost to a collision', () => {
+    const hash = () => 1000;
+    const colliding = new HashOrbit({ hash, replicas: 1 });
+    colliding.addAll(['node-b', 'node-a']);
+
+    expect(colliding.positionsOf('node-a')).toEqual([1000]);
+    expect(colliding.positionsOf('node-b')).toEqual([]);
+    expect(colliding.rangesOf('node-b')).toEqual([]);
+  });
+
+  test('rangesOf() arcs partition the keyspace', () => {
+    const all = ring.nodes.flatMap((node) => ring.rangesOf(node)).sort((a, b) => a.start - b.start);
+
+    expect(all[0]!.start).toBe(0);
+    expect(all[all.length - 1]!.end).toBe(2 ** 32);
+    for (let i = 1; i < all.length; i++) {
+      expect(all[i]!.start).toBe(all[i - 1]!.end);
+    }
+  });
+
+  test('rangesOf() agrees with get()', () => {
+    const ranges = new Map(ring.nodes.map((node) => [node, ring.rangesOf(node)]));
+    for (const key of keys) {
+      expect(contains(ranges.get(ring.get(key)!)!, ring.hashKey(key))).toBe(true);
+    }
+  });
+
+  test('rangesOf() merges adjacent arcs and splits the wrapping arc', () => {
+    const hash = (input: string) =>
+      ({ 'node-a:0': 100, 'node-a:1': 200, 'node-b:0': 300, 'node-a:2': 400 })[input] ?? 0;
+    const small = new HashOrbit({ hash, replicas: 3 });
+    small.add('node-a');
+    small.add('node-b', { weight: 1 / 3 });
+
+    expect(small.positionsOf('node-a')).toEqual([100, 200, 400]);
+    expect(small.rangesOf('node-a')).toEqual([
+      { start: 0, end: 201 },
+      { start: 301, end: 2 ** 32 },
+    ]);
+    expect(small.rangesOf('node-b')).toEqual([{ start: 201, end: 301 }]);
+  });
+
+  test('a single node owns the whole keyspace', () => {
+    const single = new HashOrbit({ replicas: 1 });
+    single.add('node-a');
+    expect(single.rangesOf('node-a')).toEqual([{ start: 0, end: 2 ** 32 }]);
+    expect(single.rangesOf('node-x')).toEqual([]);
+  });
+
+  test('iterates over virtual nodes in ring order', () => {
+    const virtualNodes = [...ring];
+    expect(virtualNodes).toHaveLength(450);
+    for (let i = 1; i < virtualNodes.length; i++) {
+      expect(virtualNodes[i]!.position).toBeGreaterThan(virtualNodes[i - 1]!.position);
+    }
+    for (const { position, node } of virtualNodes) {
+      expect(ring.ownerOf(position)).toBe(node);
+    }
+    expect([...new HashOrbit()]).toEqual([]);
+  });
+
+  test('iteration follows the layout it started with', () => {
+    const iterator = ring[Symbol.iterator]();
+    const first = iterator.next().value;
+    ring.remove('node-a');
+    ring.add('node-d');
+
+    const rest = [...{ [Symbol.iterator]: () => iterator }];
+    expect([first, ...rest]).toHaveLength(450);
+    expect(rest.some(({ node }) => node === 'node-d')).toBe(false);
+  });
+
+  test('snapshots support introspection', () => {
+    const snapshot = ring.snapshot();
+    ring.remove('node-a');
+
+    expect(snapshot.has('node-a')).toBe(true);
+    expect(snapshot.positionsOf('node-a')).toHaveLength(150);
+    expect(snapshot.rangesOf('node-a').length).toBeGreaterThan(0);
+    expect([...snapshot]).toHaveLength(450);
+  });
+
+  test('multi-probe rings report owners but not ranges', () => {
+    const probed = new HashOrbit({ probes: 5 });
+    probed.addAll(['node-a', 'node-b']);
+    for (const key of keys.slice(0, 200)) {
+      expect(probed.ownerOf(probed.hashKey(key))).toBe(probed.get(key));
+    }
+    expect(probed.positionsOf('node-a')).toHaveLength(1);
+    expect(() => probed.rangesOf('node-a')).toThrow('Cannot compute ranges in multi-probe mode');
+  });
+});
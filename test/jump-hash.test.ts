@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, JumpHash, jumpHash, type HashStrategy } from '../src/index.js';
+
+const keys = Array.from({ length: 3000 }, (_, i) => `key:${i}`);
+
+function assignments(strategy: HashStrategy): Map<string, string | undefined> {
+  return new Map(keys.map((key) => [key, strategy.get(key)]));
+}
+
+describe('jumpHash()', () => {
+  // Computed with the reference C implementation from the paper
+  test.each([
+    [0n, 1000, 0],
+    [1n, 10, 6],
+    [1n, 100, 55],
+    [1n, 1000, 549],
+    [42n, 2, 1],
+    [42n, 10, 2],
+    [42n, 100, 43],
+    [42n, 1000, 571],
+    [0xdeadbeefn, 10, 5],
+    [0xdeadbeefn, 100, 87],
+    [0xdeadbeefn, 1000, 285],
+    [0xfedcba9876543210n, 10, 1],
+    [0xfedcba9876543210n, 100, 70],
+    [0xfedcba9876543210n, 1000, 143],
+  ])('jumpHash(%s, %i) = %i', (key, buckets, expected) => {
+    expect(jumpHash(key, buckets)).toBe(expected);
+  });
+
+  test('accepts numeric keys', () => {
+    expect(jumpHash(0xdeadbeef, 1000)).toBe(285);
+  });
+
+  test('returns -1 without buckets', () => {
+    expect(jumpHash(42n, 0)).toBe(-1);
+  });
+});
+
+describe('JumpHash', () => {
+  let jump: JumpHash;
+
+  beforeEach(() => {
+    jump = new JumpHash();
+    ['shard-0', 'shard-1', 'shard-2', 'shard-3'].forEach((node) => jump.add(node));
+  });
+
+  test('assigns nodes to buckets in insertion order', () => {
+    expect(jump.nodes).toEqual(['shard-0', 'shard-1', 'shard-2', 'shard-3']);
+    expect(jump.size).toBe(4);
+    expect(jump.bucketOfNode('shard-2')).toBe(2);
+    expect(jump.bucketOfNode('missing')).toBeUndefined();
+  });
+
+  test('adding an existing node is a no-op', () => {
+    jump.add('shard-1');
+    expect(jump.size).toBe(4);
+  });
+
+  test('returns undefined and [] when empty', () => {
+    const empty = new JumpHash();
+    expect(empty.get('key')).toBeUndefined();
+    expect(empty.getN('key', 2)).toEqual([]);
+  });
+
+  test('balances keys evenly', () => {
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      const node = jump.get(key)!;
+      counts.set(node, (counts.get(node) || 0) + 1);
+    }
+    for (const count of counts.values()) {
+      expect(count).toBeGreaterThan(750 * 0.85);
+      expect(count).toBeLessThan(750 * 1.15);
+    }
+  });
+
+  test('adding a node only moves keys into the new bucket', () => {
+    const before = assignments(jump);
+    jump.add('shard-4');
+
+    let moved = 0;
+    for (const [key, node] of assignments(jump)) {
+      if (node !== before.get(key)) {
+        expect(node).toBe('shard-4');
+        moved++;
+      }
+    }
+    expect(moved / keys.length).toBeCloseTo(1 / 5, 1);
+  });
+
+  test('removing the last node only moves its keys', () => {
+    const before = assignments(jump);
+    jump.remove('shard-3');
+
+    for (const [key, node] of assignments(jump)) {
+      if (before.get(key) !== 'shard-3') expect(node).toBe(before.get(key));
+    }
+  });
+
+  test('removing another node moves the last node into its bucket', () => {
+    const before = assignments(jump);
+    jump.remove('shard-1');
+
+    expect(jump.nodes).toEqual(['shard-0', 'shard-3', 'shard-2']);
+    let moved = 0;
+    for (const [key, node] of assignments(jump)) {
+      if (before.get(key) === 'shard-1') expect(node).not.toBe('shard-1');
+      if (node !== before.get(key)) {
+        expect(['shard-1', 'shard-3']).toContain(before.get(key));
+        moved++;
+      }
+    }
+    // The removed node's quarter plus most of the last node's quarter
+    expect(moved / keys.length).toBeGreaterThan(0.4);
+    expect(moved / keys.length).toBeLessThan(0.55);
+  });
+
+  test('removing an unknown node is a no-op', () => {
+    jump.remove('missing');
+    expect(jump.size).toBe(4);
+  });
+
+  test('getN returns following buckets in order', () => {
+    const [first, ...rest] = jump.getN('user:123', 3);
+    const start = jump.bucketOfNode(first!)!;
+    expect(first).toBe(jump.get('user:123'));
+    expect(rest).toEqual([jump.nodes[(start + 1) % 4], jump.nodes[(start + 2) % 4]]);
+    expect(jump.getN('user:123', 10)).toHaveLength(4);
+    expect(jump.getN('user:123', 0)).toEqual([]);
+  });
+
+  test('validates identifiers', () => {
+    expect(() => jump.add('')).toThrow('Node identifier cannot be empty');
+    expect(() => jump.remove('')).toThrow('Node identifier cannot be empty');
+    expect(() => jump.get('')).toThrow('Key cannot be empty');
+    expect(() => jump.getN('k'.repeat(1001), 1)).toThrow('Key exceeds maximum length');
+  });
+
+  test('uses the configured hash as the jump key', () => {
+    const crc = new JumpHash({ hash: 'crc32' });
+    ['a', 'b', 'c'].forEach((node) => crc.add(node));
+    expect(crc.get('user:1')).toBe(crc.nodes[jumpHash(0x7ba5c282, 3)]);
+  });
+
+  test('round-trips through toJSON/fromJSON', () => {
+    jump.remove('shard-1');
+    const json = JSON.parse(JSON.stringify(jump.toJSON()));
+    expect(json).toEqual({ buckets: ['shard-0', 'shard-3', 'shard-2'], hash: 'murmur3' });
+
+    const restored = JumpHash.fromJSON(json);
+    expect(assignments(restored)).toEqual(assignments(jump));
+    expect(restored.toString()).toBe('JumpHash(nodes=3)');
+  });
+
+  test('fromJSON rejects a different hash', () => {
+    expect(() => JumpHash.fromJSON(jump.toJSON(), { hash: 'fnv1a' })).toThrow('Hash mismatch');
+  });
+});
+
+describe('HashStrategy', () => {
+  test('HashOrbit and JumpHash are interchangeable', () => {
+    const route = (strategy: HashStrategy) => {
+      ['db-1', 'db-2', 'db-3'].forEach((node) => strategy.add(node));
+      return [strategy.get('user:1'), strategy.getN('user:1', 2), strategy.size];
+    };
+
+    for (const strategy of [new HashOrbit(), new JumpHash()]) {
+      const [node, replicas, size] = route(strategy);
+      expect(['db-1', 'db-2', 'db-3']).toContain(node);
+      expect(replicas).toHaveLength(2);
+      expect(size).toBe(3);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { MaglevHash } from '../src/index.js';
+
+const backends = Array.from({ length: 10 }, (_, i) => `backend-${i}`);
+
+describe('MaglevHash', () => {
+  let maglev: MaglevHash;
+
+  beforeEach(() => {
+    maglev = new MaglevHash({ tableSize: 5003 });
+    backends.forEach((node) => maglev.add(node));
+  });
+
+  test('requires a prime table size', () => {
+    expect(() => new MaglevHash({ tableSize: 1000 })).toThrow('Table size must be a prime number');
+    expect(() => new MaglevHash({ tableSize: 1 })).toThrow('Table size must be a prime number');
+    expect(() => new MaglevHash({ tableSize: 65537.5 })).toThrow('Table size must be a prime');
+    expect(new MaglevHash().toString()).toBe('MaglevHash(nodes=0, tableSize=65537)');
+  });
+
+  test('returns undefined and [] when empty', () => {
+    const empty = new MaglevHash({ tableSize: 7 });
+    expect(empty.get('key')).toBeUndefined();
+    expect(empty.getN('key', 2)).toEqual([]);
+    expect(empty.entries()).toEqual([]);
+  });
+
+  test('gives every node the same number of slots, ±1', () => {
+    const counts = new Map<string, number>();
+    for (const node of maglev.entries()) {
+      counts.set(node, (counts.get(node) || 0) + 1);
+    }
+    expect(counts.size).toBe(10);
+    expect(Math.max(...counts.values()) - Math.min(...counts.values())).toBeLessThanOrEqual(1);
+  });
+
+  test('does not depend on insertion order', () => {
+    const reversed = new MaglevHash({ tableSize: 5003 });
+    [...backends].reverse().forEach((node) => reversed.add(node));
+    expect(reversed.entries()).toEqual(maglev.entries());
+  });
+
+  test('routes keys consistently', () => {
+    const node = maglev.get('session:abc');
+    expect(backends).toContain(node);
+    expect(maglev.get('session:abc')).toBe(node);
+  });
+
+  test('rebuilds the table after membership changes', () => {
+    maglev.remove('backend-0');
+    expect(maglev.entries()).not.toContain('backend-0');
+    maglev.add('backend-10');
+    expect(maglev.entries()).toContain('backend-10');
+    expect(maglev.size).toBe(10);
+  });
+
+  test('ignores duplicate adds and unknown removes', () => {
+    const before = maglev.entries();
+    maglev.add('backend-1');
+    maglev.remove('missing');
+    expect(maglev.entries()).toEqual(before);
+  });
+
+  test('rejects more nodes than table slots', () => {
+    const tiny = new MaglevHash({ tableSize: 2 });
+    tiny.add('a');
+    tiny.add('b');
+    expect(() => tiny.add('c')).toThrow('Lookup table of size 2 cannot hold more nodes');
+  });
+
+  test('getN returns distinct nodes starting with get', () => {
+    const nodes = maglev.getN('session:abc', 3);
+    expect(nodes).toHaveLength(3);
+    expect(new Set(nodes).size).toBe(3);
+    expect(nodes[0]).toBe(maglev.get('session:abc'));
+    expect(maglev.getN('session:abc', 20)).toHaveLength(10);
+    expect(maglev.getN('session:abc', 0)).toEqual([]);
+  });
+
+  test('validates identifiers', () => {
+    expect(() => maglev.add('')).toThrow('Node identifier cannot be empty');
+    expect(() => maglev.get('')).toThrow('Key cannot be empty');
+  });
+
+  describe('disruption', () => {
+    test('removing a backend mostly moves only its own slots', () => {
+      const after = MaglevHash.fromJSON(maglev.toJSON());
+      after.remove('backend-3');
+
+      const { changed, unnecessary } = MaglevHash.disruption(maglev, after);
+      expect(changed).toBeCloseTo(0.1, 1);
+      expect(unnecessary).toBeGreaterThan(0);
+      expect(unnecessary).toBeLessThan(0.02);
+    });
+
+    test('larger tables disrupt less', () => {
+      const measure = (tableSize: number) => {
+        const before = new MaglevHash({ tableSize });
+        backends.forEach((node) => before.add(node));
+        const after = MaglevHash.fromJSON(before.toJSON());
+        after.remove('backend-3');
+        return MaglevHash.disruption(before, after).unnecessary;
+      };
+      expect(measure(65537)).toBeLessThan(measure(251));
+    });
+
+    test('identical tables have no disruption', () => {
+      expect(MaglevHash.disruption(maglev, MaglevHash.fromJSON(maglev.toJSON()))).toEqual({
+        changed: 0,
+        unnecessary: 0,
+      });
+    });
+
+    test('rejects tables of different sizes', () => {
+      expect(() => MaglevHash.disruption(maglev, new MaglevHash())).toThrow(
+        'Cannot compare lookup tables of different sizes'
+      );
+    });
+  });
+
+  describe('serialization', () => {
+    test('round-trips nodes, table size and hash', () => {
+      const fnv = new MaglevHash({ tableSize: 251, hash: 'fnv1a' });
+      fnv.add('a');
+      fnv.add('b');
+
+      const json = JSON.parse(JSON.stringify(fnv.toJSON()));
+      expect(json).toEqual({ nodes: ['a', 'b'], tableSize: 251, hash: 'fnv1a' });
+      expect(MaglevHash.fromJSON(json).entries()).toEqual(fnv.entries());
+    });
+
+    test('fromJSON rejects a different hash', () => {
+      expect(() => MaglevHash.fromJSON(maglev.toJSON(), { hash: 'crc32' })).toThrow(
+        'Hash mismatch'
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, JumpHash, groupMoves, planMigration, type KeyMove } from '../src/index.js';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `user:${i}`);
+
+async function* stream(values: string[]): AsyncGenerator<string> {
+  for (const value of values) yield value;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterable) values.push(value);
+  return values;
+}
+
+describe('planMigration()', () => {
+  let before: HashOrbit;
+  let after: HashOrbit;
+
+  beforeEach(() => {
+    before = new HashOrbit();
+    ['shard-1', 'shard-2', 'shard-3'].forEach((node) => before.add(node));
+    after = HashOrbit.fromJSON(before.toJSON());
+  });
+
+  test('yields nothing when placement is unchanged', () => {
+    expect([...planMigration(before, after, keys)]).toEqual([]);
+  });
+
+  test('lists exactly the keys whose owner changed', () => {
+    after.add('shard-4');
+    const moves = [...planMigration(before, after, keys)];
+
+    const expected = keys.filter((key) => before.get(key) !== after.get(key));
+    expect(moves.map((move) => move.key)).toEqual(expected);
+    for (const { key, from, to } of moves) {
+      expect(from).toBe(before.get(key));
+      expect(to).toBe('shard-4');
+    }
+  });
+
+  test('handles removals', () => {
+    after.remove('shard-2');
+    const moves = [...planMigration(before, after, keys)];
+
+    expect(moves.length).toBe(keys.filter((key) => before.get(key) === 'shard-2').length);
+    expect(moves.every((move) => move.from === 'shard-2')).toBe(true);
+  });
+
+  test('streams lazily', () => {
+    after.add('shard-4');
+    let read = 0;
+    function* counted() {
+      for (const key of keys) {
+        read++;
+        yield key;
+      }
+    }
+
+    const moves = planMigration(before, after, counted());
+    expect(read).toBe(0);
+    moves.next();
+    expect(read).toBeGreaterThan(0);
+    expect(read).toBeLessThan(keys.length);
+  });
+
+  test('accepts async iterables', async () => {
+    after.add('shard-4');
+    const moves = await collect(planMigration(before, after, stream(keys)));
+    expect(moves).toEqual([...planMigration(before, after, keys)]);
+  });
+
+  test('works across strategies', () => {
+    const jump = new JumpHash();
+    ['shard-1', 'shard-2', 'shard-3'].forEach((node) => jump.add(node));
+    const moves = [...planMigration(before, jump, keys)];
+
+    for (const { key, from, to } of moves) {
+      expect(from).toBe(before.get(key));
+      expect(to).toBe(jump.get(key));
+    }
+  });
+
+  test('validates replicas', () => {
+    expect(() => planMigration(before, after, keys, { replicas: 0 })).toThrow(
+      'Replicas must be a positive integer'
+    );
+  });
+
+  describe('replica sets', () => {
+    test('pairs departing and arriving replicas', () => {
+      after.add('shard-4');
+      const moves = [...planMigration(before, after, keys, { replicas: 2 })];
+
+      expect(moves.length).toBeGreaterThan(0);
+      for (const { key, from, to } of moves) {
+        const previous = before.getN(key, 2);
+        const next = after.getN(key, 2);
+        expect(to).toBe('shard-4');
+        expect(previous).toContain(from);
+        expect(next).not.toContain(from);
+      }
+    });
+
+    test('covers every replica set change', () => {
+      after.remove('shard-1');
+      after.add('shard-4');
+      after.add('shard-5');
+      const moves = [...planMigration(before, after, keys, { replicas: 2 })];
+
+      for (const key of keys) {
+        const previous = before.getN(key, 2);
+        const next = after.getN(key, 2);
+        const mine = moves.filter((move) => move.key === key);
+        expect(mine.map((move) => move.to).sort()).toEqual(
+          next.filter((node) => !previous.includes(node)).sort()
+        );
+        expect(mine.map((move) => move.from).sort()).toEqual(
+          previous.filter((node) => !next.includes(node)).sort()
+        );
+      }
+    });
+
+    test('reports unpaired arrivals and departures', () => {
+      const small = new HashOrbit();
+      small.add('shard-1');
+      const large = HashOrbit.fromJSON(small.toJSON());
+      large.add('shard-2');
+
+      expect([...planMigration(small, large, ['user:1'], { replicas: 2 })]).toEqual([
+        { key: 'user:1', from: undefined, to: 'shard-2' },
+      ]);
+      expect([...planMigration(large, small, ['user:1'], { replicas: 2 })]).toEqual([
+        { key: 'user:1', from: 'shard-2', to: undefined },
+      ]);
+    });
+  });
+});
+
+describe('groupMoves()', () => {
+  const moves: KeyMove[] = [
+    { key: 'a', from: 'shard-1', to: 'shard-4' },
+    { key: 'b', from: 'shard-2', to: 'shard-4' },
+    { key: 'c', from: 'shard-1', to: 'shard-4' },
+    { key: 'd', from: undefined, to: 'shard-4' },
+  ];
+
+  test('groups keys per source and destination pair', () => {
+    expect(groupMoves(moves)).toEqual([
+      { from: 'shard-1', to: 'shard-4', keys: ['a', 'c'] },
+      { from: 'shard-2', to: 'shard-4', keys: ['b'] },
+      { from: undefined, to: 'shard-4', keys: ['d'] },
+    ]);
+  });
+
+  test('groups async moves', async () => {
+    async function* asyncMoves() {
+      yield* moves;
+    }
+    expect(await groupMoves(asyncMoves())).toEqual(groupMoves(moves));
+  });
+
+  test('groups a full plan', () => {
+    const before = new HashOrbit();
+    ['shard-1', 'shard-2', 'shard-3'].forEach((node) => before.add(node));
+    const after = HashOrbit.fromJSON(before.toJSON());
+    after.add('shard-4');
+
+    const groups = groupMoves(planMigration(before, after, keys));
+    expect(groups.map((group) => group.from).sort()).toEqual(['shard-1', 'shard-2', 'shard-3']);
+    expect(groups.reduce((sum, group) => sum + group.keys.length, 0)).toBe(
+      keys.filter((key) => before.get(key) !== after.get(key)).length
+    );
+  });
+});
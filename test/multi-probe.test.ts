@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, type HashOrbitOptions } from '../src/index.js';
+import { peakToMean } from './helpers.js';
+
+const keys = Array.from({ length: 5000 }, (_, i) => `key:${i}`);
+
+function cluster(options: HashOrbitOptions, size: number, prefix = ''): HashOrbit {
+  const ring = new HashOrbit(options);
+  for (let i = 0; i < size; i++) ring.add(`${prefix}node-${i}`);
+  return ring;
+}
+
+describe('multi-probe mode', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = cluster({ probes: 21 }, 10);
+  });
+
+  test('validates the probe count', () => {
+    expect(() => new HashOrbit({ probes: 0 })).toThrow('Probes must be a positive integer');
+    expect(() => new HashOrbit({ probes: 2.5 })).toThrow('Probes must be a positive integer');
+    expect(() => new HashOrbit({ profile: 'ketama', probes: 21 })).toThrow(
+      'The ketama profile cannot be combined with multi-probe mode'
+    );
+  });
+
+  test('places one position per node', () => {
+    expect(ring.toString()).toBe('HashOrbit(nodes=10, positions=10, replicas=1)');
+    expect(cluster({ probes: 21, replicas: 3 }, 10).toString()).toContain('positions=30');
+  });
+
+  test('a single probe matches the plain ring', () => {
+    const single = cluster({ probes: 1 }, 10);
+    const plain = cluster({ replicas: 1 }, 10);
+    for (const key of keys.slice(0, 500)) {
+      expect(single.get(key)).toBe(plain.get(key));
+    }
+  });
+
+  test('balances as well as 150 virtual nodes', () => {
+    let multiProbe = 0;
+    let singleProbe = 0;
+    let virtualNodes = 0;
+    for (let trial = 0; trial < 5; trial++) {
+      multiProbe += peakToMean(cluster({ probes: 21 }, 10, `${trial}-`), keys);
+      singleProbe += peakToMean(cluster({ probes: 1 }, 10, `${trial}-`), keys);
+      virtualNodes += peakToMean(cluster({}, 10, `${trial}-`), keys);
+    }
+
+    expect(multiProbe / 5).toBeLessThan(1.2);
+    expect(multiProbe).toBeLessThan(singleProbe / 2);
+    expect(multiProbe).toBeLessThan(virtualNodes * 1.05);
+  });
+
+  test('adding a node only moves keys to the new node', () => {
+    const before = new Map(keys.map((key) => [key, ring.get(key)]));
+    ring.add('node-10');
+
+    for (const key of keys) {
+      const node = ring.get(key);
+      if (node !== before.get(key)) expect(node).toBe('node-10');
+    }
+  });
+
+  test('removing a node only moves its keys', () => {
+    const before = new Map(keys.map((key) => [key, ring.get(key)]));
+    ring.remove('node-4');
+
+    for (const key of keys) {
+      if (before.get(key) !== 'node-4') expect(ring.get(key)).toBe(before.get(key));
+    }
+  });
+
+  test('getN walks clockwise from the winning probe', () => {
+    const nodes = ring.getN('user:123', 3);
+    expect(nodes).toHaveLength(3);
+    expect(new Set(nodes).size).toBe(3);
+    expect(nodes[0]).toBe(ring.get('user:123'));
+  });
+
+  test('weights add positions', () => {
+    ring.setWeight('node-0', 3);
+    expect(ring.toString()).toContain('positions=12');
+  });
+
+  test('combines with bounded loads', () => {
+    const bounded = new HashOrbit({ probes: 21, capacityFactor: 1.1 });
+    for (let i = 0; i < 10; i++) bounded.add(`node-${i}`);
+    for (const key of keys.slice(0, 1000)) bounded.acquire(key);
+
+    for (const node of bounded.nodes) {
+      expect(bounded.getLoad(node)).toBeLessThanOrEqual(110);
+    }
+  });
+
+  test('round-trips through toJSON/fromJSON', () => {
+    const json = JSON.parse(JSON.stringify(ring.toJSON()));
+    expect(json.probes).toBe(21);
+    expect(json.replicas).toBe(1);
+
+    const restored = HashOrbit.fromJSON(json);
+    for (const key of keys.slice(0, 500)) {
+      expect(restored.get(key)).toBe(ring.get(key));
+    }
+    expect(new HashOrbit().toJSON().probes).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HashOrbit, fnv1a, type RingLog } from '../src/index.js';
+
+const keys = Array.from({ length: 500 }, (_, i) => `key:${i}`);
+
+function routes(ring: HashOrbit): Array<string | undefined> {
+  return keys.map((key) => ring.get(key));
+}
+
+describe('Operation log', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000);
+    ring = new HashOrbit({ operationLog: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Versions 1-4, one change (or batch) per version
+  function history(): void {
+    ring.add('node-a');
+    vi.setSystemTime(2_000);
+    ring.batch(() => {
+      ring.add('node-b', { weight: 2 });
+      ring.add('node-c');
+    });
+    vi.setSystemTime(3_000);
+    ring.setWeight('node-b', 1);
+    ring.remove('node-a');
+  }
+
+  test('records changes with versions and timestamps', () => {
+    history();
+    ring.remove('node-x');
+    ring.setWeight('node-b', 1);
+
+    expect(ring.getLog()).toEqual({
+      baseVersion: 0,
+      base: { nodes: [], replicas: 150, hash: 'murmur3' },
+      operations: [
+        { version: 1, timestamp: 1_000, type: 'add', node: 'node-a', weight: 1 },
+        { version: 2, timestamp: 2_000, type: 'add', node: 'node-b', weight: 2 },
+        { version: 2, timestamp: 2_000, type: 'add', node: 'node-c', weight: 1 },
+        { version: 3, timestamp: 3_000, type: 'setWeight', node: 'node-b', weight: 1 },
+        { version: 4, timestamp: 3_000, type: 'remove', node: 'node-a' },
+      ],
+    });
+    expect(ring.version).toBe(4);
+  });
+
+  test('replay() rebuilds the ring at any version', () => {
+    history();
+    const log: RingLog = JSON.parse(JSON.stringify(ring.getLog()));
+
+    const atTwo = HashOrbit.replay(log, { version: 2 });
+    expect(atTwo.version).toBe(2);
+    expect(atTwo.nodes).toEqual(['node-a', 'node-b', 'node-c']);
+    expect(atTwo.getWeight('node-b')).toBe(2);
+
+    const latest = HashOrbit.replay(log);
+    expect(latest.version).toBe(4);
+    expect(latest.toJSON()).toEqual(ring.toJSON());
+    expect(routes(latest)).toEqual(routes(ring));
+
+    expect(HashOrbit.replay(log, { version: 0 }).size).toBe(0);
+  });
+
+  test('replay() answers which change moved a key', () => {
+    history();
+    const log = ring.getLog();
+    const key = keys.find((k) => HashOrbit.replay(log, { version: 3 }).get(k) !== ring.get(k))!;
+
+    const moves = log.operations
+      .map((operation) => operation.version)
+      .filter((version) => {
+        const before = HashOrbit.replay(log, { version: version - 1 }).get(key);
+        return before !== HashOrbit.replay(log, { version }).get(key);
+      });
+    expect(moves).toContain(4);
+  });
+
+  test('a replayed ring keeps logging', () => {
+    history();
+    const replayed = HashOrbit.replay(ring.getLog(), { version: 3 });
+    replayed.add('node-d');
+
+    const { operations } = replayed.getLog();
+    expect(operations.map((operation) => operation.version)).toEqual([1, 2, 2, 3, 4]);
+    expect(operations[4]).toMatchObject({ type: 'add', node: 'node-d' });
+  });
+
+  test('compactLog() folds changes into the base', () => {
+    history();
+    ring.compactLog(2);
+    const log = ring.getLog();
+
+    expect(log.baseVersion).toBe(2);
+    expect(log.base.nodes).toEqual(['node-a', 'node-b', 'node-c']);
+    expect(log.base.weights).toEqual({ 'node-b': 2 });
+    expect(log.operations.map((operation) => operation.version)).toEqual([3, 4]);
+    expect(routes(HashOrbit.replay(log))).toEqual(routes(ring));
+    expect(HashOrbit.replay(log, { version: 2 }).version).toBe(2);
+    expect(() => HashOrbit.replay(log, { version: 1 })).toThrow(
+      'Version 1 is not in the log (versions 2 to 4)'
+    );
+  });
+
+  test('compactLog() defaults to the current version', () => {
+    history();
+    ring.compactLog();
+    expect(ring.getLog()).toEqual({ baseVersion: 4, base: ring.toJSON(), operations: [] });
+    expect(HashOrbit.replay(ring.getLog()).version).toBe(4);
+  });
+
+  test('rejects versions outside the log', () => {
+    history();
+    expect(() => HashOrbit.replay(ring.getLog(), { version: 5 })).toThrow(
+      'Version 5 is not in the log (versions 0 to 4)'
+    );
+    expect(() => ring.compactLog(7)).toThrow('Version 7 is not in the log');
+    expect(() => ring.batch(() => ring.compactLog())).toThrow(
+      'Cannot compact the log during a batch'
+    );
+  });
+
+  test('the log is a copy', () => {
+    history();
+    ring.getLog().operations.length = 0;
+    expect(ring.getLog().operations).toHaveLength(5);
+  });
+
+  test('custom hashes and profiles replay', () => {
+    const hash = (input: string) => fnv1a(input) ^ 7;
+    const custom = new HashOrbit({ hash, operationLog: true });
+    custom.addAll(['node-a', 'node-b', 'node-c']);
+    custom.remove('node-b');
+    custom.compactLog(1);
+    expect(routes(HashOrbit.replay(custom.getLog(), { hash }))).toEqual(routes(custom));
+
+    const ketama = new HashOrbit({ profile: 'ketama', operationLog: true });
+    ketama.addAll(['10.0.0.1:11211', '10.0.0.2:11211']);
+    ketama.add('10.0.0.3:11211');
+    ketama.compactLog(1);
+    expect(routes(HashOrbit.replay(ketama.getLog()))).toEqual(routes(ketama));
+  });
+
+  test('is disabled by default', () => {
+    const plain = new HashOrbit();
+    const message = 'Operation log is not enabled; set the operationLog option';
+    expect(() => plain.getLog()).toThrow(message);
+    expect(() => plain.compactLog()).toThrow(message);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit } from '../src/index.js';
+
+const keys = Array.from({ length: 500 }, (_, i) => `key:${i}`);
+
+describe('Preference lists', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b', 'node-c', 'node-d', 'node-e']);
+  });
+
+  test('a healthy ring lists the getN() replicas without hints', () => {
+    for (const key of keys) {
+      const list = ring.getPreferenceList(key, 3);
+      expect(list).toEqual(ring.getN(key, 3).map((node) => ({ node })));
+    }
+  });
+
+  test('stand-ins carry the down replica they replace', () => {
+    for (const key of keys) {
+      const order = ring.getN(key, 4);
+      ring.markDown(order[1]!);
+
+      const list = ring.getPreferenceList(key, 3);
+      expect(list.map(({ node }) => node)).toEqual(ring.getN(key, 3));
+      expect(list).toEqual([
+        { node: order[0] },
+        { node: order[2] },
+        { node: order[3], hint: order[1] },
+      ]);
+
+      ring.markUp(order[1]!);
+    }
+  });
+
+  test('stand-ins are matched to down replicas in ring order', () => {
+    const key = 'key:1';
+    const order = ring.getN(key, 5);
+    ring.markDown(order[0]!);
+    ring.markDown(order[2]!);
+
+    expect(ring.getPreferenceList(key, 3)).toEqual([
+      { node: order[1] },
+      { node: order[3], hint: order[0] },
+      { node: order[4], hint: order[2] },
+    ]);
+  });
+
+  test('down replicas without a stand-in are left out', () => {
+    const key = 'key:1';
+    const order = ring.getN(key, 5);
+    ring.markDown(order[0]!);
+    ring.markDown(order[1]!);
+
+    expect(ring.getPreferenceList(key, 4)).toEqual([
+      { node: order[2] },
+      { node: order[3] },
+      { node: order[4], hint: order[0] },
+    ]);
+    ring.markDown(order[2]!);
+    ring.markDown(order[3]!);
+    ring.markDown(order[4]!);
+    expect(ring.getPreferenceList(key, 2)).toEqual([]);
+  });
+
+  test('zone-aware lists hint within the placement', () => {
+    const zoned = new HashOrbit();
+    zoned.add('node-a', { zone: 'us-east-1a' });
+    zoned.add('node-b', { zone: 'us-east-1a' });
+    zoned.add('node-c', { zone: 'us-east-1b' });
+    zoned.add('node-d', { zone: 'us-east-1b' });
+
+    for (const key of keys.slice(0, 100)) {
+      const owners = zoned.getN(key, { 'us-east-1a': 1, 'us-east-1b': 1 });
+      const down = owners[0]!;
+      zoned.markDown(down);
+
+      const list = zoned.getPreferenceList(key, { 'us-east-1a': 1, 'us-east-1b': 1 });
+      const standIn = list.find(({ hint }) => hint === down)!;
+      expect(zoned.getLocation(standIn.node)).toEqual(zoned.getLocation(down));
+      expect(list).toHaveLength(2);
+
+      zoned.markUp(down);
+    }
+  });
+
+  test('per-zone stand-ins hint for the down replica of their own zone', () => {
+    const zoned = new HashOrbit();
+    zoned.add('node-a', { zone: 'us-east-1a' });
+    zoned.add('node-b', { zone: 'us-east-1a' });
+    zoned.add('node-c', { zone: 'us-east-1b' });
+    zoned.add('node-d', { zone: 'us-east-1b' });
+    const count = { 'us-east-1a': 1, 'us-east-1b': 1 };
+
+    for (const key of keys) {
+      const owners = zoned.getN(key, count);
+      owners.forEach((node) => zoned.markDown(node));
+
+      const list = zoned.getPreferenceList(key, count);
+      expect(list).toHaveLength(2);
+      for (const { node, hint } of list) {
+        expect(owners).toContain(hint);
+        expect(zoned.getLocation(node)).toEqual(zoned.getLocation(hint!));
+      }
+
+      owners.forEach((node) => zoned.markUp(node));
+    }
+  });
+
+  test('keys and counts are validated', () => {
+    expect(() => ring.getPreferenceList('', 2)).toThrow('Key cannot be empty');
+    expect(() => ring.getPreferenceList('key:1', { 'us-east-1a': -1 })).toThrow(
+      'Replica counts must be non-negative integers'
+    );
+    expect(ring.getPreferenceList('key:1', 0)).toEqual([]);
+    expect(new HashOrbit().getPreferenceList('key:1', 2)).toEqual([]);
+  });
+
+  test('snapshots keep the health they were taken with', () => {
+    const order = ring.getN('key:1', 3);
+    ring.markDown(order[0]!);
+    const snapshot = ring.snapshot();
+    ring.markUp(order[0]!);
+
+    expect(snapshot.getPreferenceList('key:1', 2).some(({ hint }) => hint === order[0])).toBe(true);
+    expect(ring.getPreferenceList('key:1', 2)).toEqual([{ node: order[0] }, { node: order[1] }]);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, test, expect } from 'vitest';
+import { HashOrbit, crc32 } from '../src/index.js';
+import { ringProfiles } from '../src/profiles.js';
+import groupcacheVectors from './fixtures/groupcache.json';
+import hashringVectors from './fixtures/hashring.json';
+import ketamaVectors from './fixtures/ketama.json';
+
+interface Scenario {
+  name: string;
+  servers: Array<{ name: string; weight: number; points: number }>;
+  continuum: Array<Array<number | string>>;
+  assignments: Record<string, string>;
+}
+
+function build(profile: 'ketama' | 'hashring', scenario: Omit<Scenario, 'continuum'>): HashOrbit {
+  const ring = new HashOrbit({ profile });
+  for (const server of scenario.servers) {
+    ring.add(server.name, { weight: server.weight });
+  }
+  return ring;
+}
+
+describe('ketama profile', () => {
+  const scenarios = ketamaVectors.scenarios as Scenario[];
+
+  test.each(scenarios.map((scenario) => [scenario.name, scenario] as const))(
+    'matches reference assignments: %s',
+    (_, scenario) => {
+      const ring = build('ketama', scenario);
+      for (const [key, server] of Object.entries(scenario.assignments)) {
+        expect(ring.get(key)).toBe(server);
+      }
+    }
+  );
+
+  test.each(scenarios.map((scenario) => [scenario.name, scenario] as const))(
+    'matches reference point counts and continuum: %s',
+    (_, scenario) => {
+      const profile = ringProfiles.ketama;
+      const total = scenario.servers.reduce((sum, server) => sum + server.weight, 0);
+      const continuum: Array<[number, string]> = [];
+      for (const server of scenario.servers) {
+        const count = profile.pointCount(160, server.weight, total, scenario.servers.length);
+        expect(count).toBe(server.points);
+        for (const point of profile.points(server.name, 0, count)) {
+          continuum.push([point, server.name]);
+        }
+      }
+
+      continuum.sort((a, b) => a[0] - b[0]);
+      expect(continuum.slice(0, scenario.continuum.length)).toEqual(scenario.continuum);
+
+      const points = scenario.servers.reduce((sum, server) => sum + server.points, 0);
+      expect(build('ketama', scenario).toString()).toContain(`positions=${points}`);
+    }
+  );
+
+  test('assignments do not depend on insertion order', () => {
+    const [scenario] = scenarios as [Scenario];
+    const reversed = new HashOrbit({ profile: 'ketama' });
+    for (const server of [...scenario.servers].reverse()) {
+      reversed.add(server.name, { weight: server.weight });
+    }
+    for (const [key, server] of Object.entries(scenario.assignments)) {
+      expect(reversed.get(key)).toBe(server);
+    }
+  });
+
+  test('recomputes every point count when the weights change', () => {
+    const [, weighted] = scenarios as [Scenario, Scenario];
+    const ring = new HashOrbit({ profile: 'ketama' });
+    ring.add(weighted.servers[0]!.name);
+    for (const server of weighted.servers) {
+      ring.add(server.name, { weight: server.weight });
+    }
+    for (const [key, server] of Object.entries(weighted.assignments)) {
+      expect(ring.get(key)).toBe(server);
+    }
+
+    // Removing and re-adding a server restores the reference ring
+    ring.remove(weighted.servers[2]!.name);
+    ring.add(weighted.servers[2]!.name, { weight: weighted.servers[2]!.weight });
+    for (const [key, server] of Object.entries(weighted.assignments)) {
+      expect(ring.get(key)).toBe(server);
+    }
+  });
+
+  test('uses 160 points per server and the md5 key hash', () => {
+    const ring = new HashOrbit({ profile: 'ketama' });
+    ring.add('10.0.1.1:11211');
+    expect(ring.toString()).toContain('positions=160');
+    expect(ring.toString()).toContain('replicas=160');
+    expect(ring.toJSON().hash).toBe('md5');
+  });
+
+  test('round-trips through toJSON/fromJSON', () => {
+    const [, weighted] = scenarios as [Scenario, Scenario];
+    const json = JSON.parse(JSON.stringify(build('ketama', weighted).toJSON()));
+    expect(json.profile).toBe('ketama');
+
+    const restored = HashOrbit.fromJSON(json);
+    for (const [key, server] of Object.entries(weighted.assignments)) {
+      expect(restored.get(key)).toBe(server);
+    }
+  });
+
+  test('rejects a hash option', () => {
+    expect(() => new HashOrbit({ profile: 'ketama', hash: 'crc32' })).toThrow(
+      'The ketama profile defines its own hash function'
+    );
+    const json = new HashOrbit({ profile: 'ketama' }).toJSON();
+    expect(() => HashOrbit.fromJSON(json, { hash: 'md5' })).toThrow(
+      'The ketama profile defines its own hash function'
+    );
+  });
+
+  test('rejects unknown profiles', () => {
+    expect(() => new HashOrbit({ profile: 'libketama' as 'ketama' })).toThrow(
+      'Unknown profile "libketama"'
+    );
+  });
+});
+
+describe('groupcache profile', () => {
+  const scenarios = groupcacheVectors.scenarios as Array<{
+    name: string;
+    replicas: number;
+    peers: string[];
+    assignments: Record<string, string>;
+  }>;
+
+  test.each(scenarios.map((scenario) => [scenario.name, scenario] as const))(
+    'matches reference assignments: %s',
+    (_, scenario) => {
+      const ring = new HashOrbit({ profile: 'groupcache', replicas: scenario.replicas });
+      scenario.peers.forEach((peer) => ring.add(peer));
+
+      expect(ring.toString()).toContain(`positions=${scenario.replicas * scenario.peers.length}`);
+      for (const [key, peer] of Object.entries(scenario.assignments)) {
+        expect(ring.get(key)).toBe(peer);
+      }
+    }
+  );
+
+  test('places point i at crc32(i + node)', () => {
+    expect(ringProfiles.groupcache.points('peer', 0, 3)).toEqual([
+      crc32('0peer'),
+      crc32('1peer'),
+      crc32('2peer'),
+    ]);
+  });
+
+  test('defaults to 50 replicas and crc32', () => {
+    const ring = new HashOrbit({ profile: 'groupcache' });
+    ring.add('http://10.0.0.1:8080');
+    expect(ring.toString()).toContain('positions=50');
+    expect(ring.toJSON()).toMatchObject({ hash: 'crc32', profile: 'groupcache', replicas: 50 });
+  });
+
+  test('removing a peer matches a ring built without it', () => {
+    const [scenario] = scenarios as [(typeof scenarios)[number]];
+    const ring = new HashOrbit({ profile: 'groupcache', replicas: scenario.replicas });
+    scenario.peers.forEach((peer) => ring.add(peer));
+    ring.add('http://10.0.0.9:8080');
+    ring.remove('http://10.0.0.9:8080');
+
+    for (const [key, peer] of Object.entries(scenario.assignments)) {
+      expect(ring.get(key)).toBe(peer);
+    }
+  });
+});
+
+describe('hashring profile', () => {
+  const scenarios = hashringVectors.scenarios as Array<
+    Omit<Scenario, 'continuum'> & { ranges: Record<string, string[]> }
+  >;
+
+  test.each(scenarios.map((scenario) => [scenario.name, scenario] as const))(
+    'matches reference assignments and ranges: %s',
+    (_, scenario) => {
+      const ring = build('hashring', scenario);
+      for (const [key, server] of Object.entries(scenario.assignments)) {
+        expect(ring.get(key)).toBe(server);
+      }
+      for (const [key, servers] of Object.entries(scenario.ranges)) {
+        expect(ring.getN(key, 3)).toEqual(servers);
+      }
+    }
+  );
+
+  test.each(scenarios.map((scenario) => [scenario.name, scenario] as const))(
+    'matches reference point counts: %s',
+    (_, scenario) => {
+      const total = scenario.servers.reduce((sum, server) => sum + server.weight, 0);
+      for (const server of scenario.servers) {
+        expect(
+          ringProfiles.hashring.pointCount(160, server.weight, total, scenario.servers.length)
+        ).toBe(server.points);
+      }
+    }
+  );
+
+  test('differs from ketama only in point count rounding', () => {
+    const nodes = Array.from({ length: 7 }, (_, i) => `10.1.0.${i + 1}:11211`);
+    const hashring = new HashOrbit({ profile: 'hashring' });
+    const ketama = new HashOrbit({ profile: 'ketama' });
+    nodes.forEach((node) => {
+      hashring.add(node);
+      ketama.add(node);
+    });
+
+    expect(hashring.toString()).toContain(`positions=${7 * 156}`);
+    expect(ketama.toString()).toContain(`positions=${7 * 160}`);
+  });
+
+  test('round-trips through toJSON/fromJSON', () => {
+    const [, weighted] = scenarios as [(typeof scenarios)[number], (typeof scenarios)[number]];
+    const restored = HashOrbit.fromJSON(build('hashring', weighted).toJSON());
+    for (const [key, server] of Object.entries(weighted.assignments)) {
+      expect(restored.get(key)).toBe(server);
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  HashOrbit,
+  planMigration,
+  rebalance,
+  type KeyMove,
+  type RebalanceCheckpoint,
+} from '../src/index.js';
+
+// In-memory shards: node -> keys it stores
+class MockCluster {
+  readonly stores = new Map<string, Set<string>>();
+  readonly copies: string[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+
+  constructor(nodes: string[]) {
+    nodes.forEach((node) => this.stores.set(node, new Set()));
+  }
+
+  load(ring: HashOrbit, keys: string[]): void {
+    for (const key of keys) this.stores.get(ring.get(key)!)!.add(key);
+  }
+
+  async copy(key: string, from: string | undefined, to: string): Promise<void> {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    // Yield so other moves can start while this one is in flight
+    for (let i = 0; i < 20; i++) await Promise.resolve();
+    this.inFlight--;
+
+    if (from !== undefined && !this.stores.get(from)!.has(key)) {
+      throw new Error(`${key} is not on ${from}`);
+    }
+    if (!this.stores.has(to)) this.stores.set(to, new Set());
+    this.stores.get(to)!.add(key);
+    this.copies.push(key);
+  }
+
+  async delete(key: string, from: string): Promise<void> {
+    this.stores.get(from)!.delete(key);
+  }
+
+  owner(key: string): string[] {
+    return [...this.stores].filter(([, keys]) => keys.has(key)).map(([node]) => node);
+  }
+}
+
+const keys = Array.from({ length: 500 }, (_, i) => `user:${i}`);
+
+describe('rebalance()', () => {
+  let before: HashOrbit;
+  let after: HashOrbit;
+  let cluster: MockCluster;
+  let plan: KeyMove[];
+
+  beforeEach(() => {
+    before = new HashOrbit();
+    ['db-1', 'db-2', 'db-3'].forEach((node) => before.add(node));
+    after = HashOrbit.fromJSON(before.toJSON());
+    after.add('db-4');
+
+    cluster = new MockCluster(before.nodes);
+    cluster.load(before, keys);
+    plan = [...planMigration(before, after, keys)];
+  });
+
+  function callbacks() {
+    return {
+      copy: (key: string, from: string | undefined, to: string) => cluster.copy(key, from, to),
+      delete: (key: string, from: string) => cluster.delete(key, from),
+    };
+  }
+
+  test('copies and deletes every move', async () => {
+    const result = await rebalance(plan, callbacks());
+
+    expect(result.completed).toBe(plan.length);
+    expect(result.failed).toEqual([]);
+    expect(result.checkpoint).toEqual({ offset: plan.length, done: [] });
+    for (const key of keys) {
+      expect(cluster.owner(key)).toEqual([after.get(key)]);
+    }
+  });
+
+  test('accepts async plans', async () => {
+    const keyStream = (async function* () {
+      yield* keys;
+    })();
+    const result = await rebalance(planMigration(before, after, keyStream), callbacks());
+    expect(result.completed).toBe(plan.length);
+  });
+
+  test('limits concurrency', async () => {
+    await rebalance(plan, { ...callbacks(), concurrency: 3 });
+    expect(cluster.maxInFlight).toBe(3);
+
+    const serial = new MockCluster(before.nodes);
+    serial.load(before, keys);
+    await rebalance(plan, {
+      copy: (key, from, to) => serial.copy(key, from, to),
+      concurrency: 1,
+    });
+    expect(serial.maxInFlight).toBe(1);
+  });
+
+  test('keeps old copies without a delete callback', async () => {
+    await rebalance(plan, { copy: (key, from, to) => cluster.copy(key, from, to) });
+    const { key, from, to } = plan[0]!;
+    expect(cluster.owner(key).sort()).toEqual([from, to].sort());
+  });
+
+  test('reports progress', async () => {
+    const reports: number[] = [];
+    await rebalance(plan, {
+      ...callbacks(),
+      onProgress: ({ completed, move }) => {
+        expect(plan).toContainEqual(move);
+        reports.push(completed);
+      },
+    });
+    expect(reports).toEqual(plan.map((_, i) => i + 1));
+  });
+
+  test('retries failed steps with backoff', async () => {
+    let failures = 2;
+    const delays: number[] = [];
+    const result = await rebalance(plan.slice(0, 1), {
+      ...callbacks(),
+      copy: async (key, from, to) => {
+        if (failures-- > 0) throw new Error('timeout');
+        await cluster.copy(key, from, to);
+      },
+      backoff: async (attempt) => {
+        delays.push(attempt);
+      },
+    });
+
+    expect(result.completed).toBe(1);
+    expect(delays).toEqual([1, 2]);
+  });
+
+  test('reports moves that keep failing and continues', async () => {
+    const poisoned = plan[1]!.key;
+    let attempts = 0;
+    const result = await rebalance(plan, {
+      ...callbacks(),
+      retries: 2,
+      copy: async (key, from, to) => {
+        if (key === poisoned) {
+          attempts++;
+          throw new Error('disk full');
+        }
+        await cluster.copy(key, from, to);
+      },
+    });
+
+    expect(attempts).toBe(3);
+    expect(result.completed).toBe(plan.length - 1);
+    expect(result.failed).toEqual([{ move: plan[1], error: new Error('disk full') }]);
+    // The checkpoint stops at the failed move, so resuming retries only it
+    expect(result.checkpoint.offset).toBe(1);
+    expect(result.checkpoint.done).toHaveLength(plan.length - 2);
+
+    const retry = await rebalance(plan, { ...callbacks(), resumeFrom: result.checkpoint });
+    expect(retry).toMatchObject({ completed: 1, skipped: plan.length - 1 });
+    expect(cluster.owner(poisoned)).toEqual([after.get(poisoned)]);
+  });
+
+  test('resumes from a checkpoint after a crash', async () => {
+    let saved: RebalanceCheckpoint | undefined;
+    let writes = 0;
+    await expect(
+      rebalance(plan, {
+        ...callbacks(),
+        onCheckpoint: (checkpoint) => {
+          if (++writes > 10) throw new Error('crash');
+          saved = JSON.parse(JSON.stringify(checkpoint));
+        },
+      })
+    ).rejects.toThrow('crash');
+    expect(saved!.offset + saved!.done.length).toBe(10);
+
+    const copiesBefore = cluster.copies.length;
+    const result = await rebalance(plan, {
+      ...callbacks(),
+      resumeFrom: saved,
+      // Moves in flight during the crash already ran, so copies must be idempotent
+      copy: (key, _from, to) => cluster.copy(key, undefined, to),
+    });
+
+    expect(result.skipped).toBe(10);
+    expect(result.completed).toBe(plan.length - 10);
+    expect(cluster.copies.length - copiesBefore).toBe(plan.length - 10);
+    for (const key of keys) {
+      expect(cluster.owner(key)).toEqual([after.get(key)]);
+    }
+  });
+
+  test('handles replica set moves', async () => {
+    const grown = new HashOrbit();
+    grown.add('db-1');
+    const larger = HashOrbit.fromJSON(grown.toJSON());
+    larger.add('db-2');
+    const calls: string[] = [];
+
+    await rebalance(planMigration(grown, larger, ['user:1'], { replicas: 2 }), {
+      copy: async (key, from, to) => {
+        calls.push(`copy ${key} ${from} ${to}`);
+      },
+      delete: async (key, from) => {
+        calls.push(`delete ${key} ${from}`);
+      },
+    });
+    expect(calls).toEqual(['copy user:1 undefined db-2']);
+
+    calls.length = 0;
+    await rebalance([{ key: 'user:1', from: 'db-2', to: undefined }], {
+      copy: async () => {
+        calls.push('copy');
+      },
+      delete: async (key, from) => {
+        calls.push(`delete ${key} ${from}`);
+      },
+    });
+    expect(calls).toEqual(['delete user:1 db-2']);
+  });
+
+  test('validates options', async () => {
+    await expect(rebalance(plan, { ...callbacks(), concurrency: 0 })).rejects.toThrow(
+      'Concurrency must be a positive integer'
+    );
+    await expect(rebalance(plan, { ...callbacks(), retries: -1 })).rejects.toThrow(
+      'Retries must be a non-negative integer'
+    );
+  });
+});
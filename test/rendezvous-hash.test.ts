@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, RendezvousHash, fnv1a } from '../src/index.js';
+import { peakToMean } from './helpers.js';
+
+const keys = Array.from({ length: 5000 }, (_, i) => `key:${i}`);
+
+describe('RendezvousHash', () => {
+  let rendezvous: RendezvousHash;
+
+  beforeEach(() => {
+    rendezvous = new RendezvousHash();
+    ['node-a', 'node-b', 'node-c', 'node-d', 'node-e'].forEach((node) => rendezvous.add(node));
+  });
+
+  test('returns undefined and [] when empty', () => {
+    const empty = new RendezvousHash();
+    expect(empty.get('key')).toBeUndefined();
+    expect(empty.getN('key', 3)).toEqual([]);
+  });
+
+  test('tracks nodes', () => {
+    expect(rendezvous.size).toBe(5);
+    expect(rendezvous.nodes).toEqual(['node-a', 'node-b', 'node-c', 'node-d', 'node-e']);
+    rendezvous.remove('node-c');
+    rendezvous.remove('missing');
+    expect(rendezvous.nodes).toEqual(['node-a', 'node-b', 'node-d', 'node-e']);
+  });
+
+  test('get returns the first node of getN', () => {
+    for (const key of keys.slice(0, 200)) {
+      expect(rendezvous.get(key)).toBe(rendezvous.getN(key, 1)[0]);
+    }
+  });
+
+  test('balances small clusters better than 150 virtual nodes', () => {
+    const ring = new HashOrbit();
+    rendezvous.nodes.forEach((node) => ring.add(node));
+
+    expect(peakToMean(rendezvous, keys)).toBeLessThan(1.05);
+    expect(peakToMean(rendezvous, keys)).toBeLessThan(peakToMean(ring, keys));
+  });
+
+  test('does not depend on insertion order', () => {
+    const reversed = new RendezvousHash();
+    [...rendezvous.nodes].reverse().forEach((node) => reversed.add(node));
+    for (const key of keys.slice(0, 200)) {
+      expect(reversed.getN(key, 5)).toEqual(rendezvous.getN(key, 5));
+    }
+  });
+
+  test('removing a node only moves its keys, to their next preference', () => {
+    const before = new Map(keys.map((key) => [key, rendezvous.getN(key, 2)]));
+    rendezvous.remove('node-b');
+
+    for (const key of keys) {
+      const [first, second] = before.get(key)!;
+      expect(rendezvous.get(key)).toBe(first === 'node-b' ? second : first);
+    }
+  });
+
+  test('adding a node only moves keys to the new node', () => {
+    const before = new Map(keys.map((key) => [key, rendezvous.get(key)]));
+    rendezvous.add('node-f');
+
+    let moved = 0;
+    for (const key of keys) {
+      const node = rendezvous.get(key);
+      if (node !== before.get(key)) {
+        expect(node).toBe('node-f');
+        moved++;
+      }
+    }
+    expect(moved / keys.length).toBeCloseTo(1 / 6, 1);
+  });
+
+  test('getN keeps a stable preference order across membership changes', () => {
+    const before = rendezvous.getN('user:123', 5);
+    rendezvous.remove(before[1]!);
+    rendezvous.add('node-f');
+
+    const after = rendezvous.getN('user:123', 6).filter((node) => node !== 'node-f');
+    expect(after).toEqual(before.filter((_, i) => i !== 1));
+  });
+
+  test('getN clamps count', () => {
+    expect(rendezvous.getN('user:123', 10)).toHaveLength(5);
+    expect(new Set(rendezvous.getN('user:123', 5)).size).toBe(5);
+    expect(rendezvous.getN('user:123', 0)).toEqual([]);
+  });
+
+  test('validates input', () => {
+    expect(() => rendezvous.add('')).toThrow('Node identifier cannot be empty');
+    expect(() => rendezvous.add('node', { weight: 0 })).toThrow('Weight must be a positive');
+    expect(() => rendezvous.get('')).toThrow('Key cannot be empty');
+    expect(() => rendezvous.getN('k'.repeat(1001), 2)).toThrow('Key exceeds maximum length');
+  });
+
+  describe('weights', () => {
+    test('distributes keys proportionally to weight', () => {
+      const weighted = new RendezvousHash();
+      weighted.add('small');
+      weighted.add('large', { weight: 3 });
+
+      const large = keys.filter((key) => weighted.get(key) === 'large').length;
+      expect(large / keys.length).toBeCloseTo(0.75, 1);
+    });
+
+    test('setWeight only moves keys to or from that node', () => {
+      const before = new Map(keys.map((key) => [key, rendezvous.get(key)]));
+      rendezvous.setWeight('node-a', 2);
+      expect(rendezvous.getWeight('node-a')).toBe(2);
+
+      for (const key of keys) {
+        const node = rendezvous.get(key);
+        if (node !== before.get(key)) expect(node).toBe('node-a');
+      }
+    });
+
+    test('add updates the weight of an existing node', () => {
+      rendezvous.add('node-a', { weight: 5 });
+      expect(rendezvous.getWeight('node-a')).toBe(5);
+      rendezvous.add('node-a');
+      expect(rendezvous.getWeight('node-a')).toBe(5);
+      expect(rendezvous.size).toBe(5);
+    });
+
+    test('setWeight rejects unknown nodes', () => {
+      expect(() => rendezvous.setWeight('missing', 2)).toThrow('Node "missing" is not in the ring');
+    });
+  });
+
+  describe('serialization', () => {
+    test('round-trips nodes, weights and hash', () => {
+      const fnv = new RendezvousHash({ hash: 'fnv1a' });
+      fnv.add('node-a');
+      fnv.add('node-b', { weight: 2 });
+
+      const json = JSON.parse(JSON.stringify(fnv.toJSON()));
+      expect(json).toEqual({
+        nodes: ['node-a', 'node-b'],
+        hash: 'fnv1a',
+        weights: { 'node-b': 2 },
+      });
+
+      const restored = RendezvousHash.fromJSON(json, { hash: fnv1a });
+      expect(restored.toString()).toBe('RendezvousHash(nodes=2)');
+      for (const key of keys.slice(0, 200)) {
+        expect(restored.getN(key, 2)).toEqual(fnv.getN(key, 2));
+      }
+    });
+
+    test('omits default weights', () => {
+      expect(rendezvous.toJSON().weights).toBeUndefined();
+    });
+
+    test('fromJSON rejects a different hash', () => {
+      expect(() => RendezvousHash.fromJSON(rendezvous.toJSON(), { hash: 'crc32' })).toThrow(
+        'Hash mismatch'
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, fnv1a } from '../src/index.js';
+
+const keys = Array.from({ length: 1000 }, (_, i) => `key:${i}`);
+
+function routes(ring: { get(key: string): string | undefined }): Array<string | undefined> {
+  return keys.map((key) => ring.get(key));
+}
+
+describe('Snapshots', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b', 'node-c']);
+  });
+
+  test('version increases with every applied change', () => {
+    const fresh = new HashOrbit();
+    expect(fresh.version).toBe(0);
+
+    fresh.add('node-a');
+    fresh.add('node-b');
+    expect(fresh.version).toBe(2);
+
+    fresh.remove('node-x');
+    fresh.setWeight('node-a', 1);
+    expect(fresh.version).toBe(2);
+
+    fresh.addAll(['node-c', 'node-d']);
+    expect(fresh.version).toBe(3);
+  });
+
+  test('a snapshot keeps routing with its topology', () => {
+    const snapshot = ring.snapshot();
+    const before = routes(ring);
+
+    ring.add('node-d');
+    ring.remove('node-a');
+    ring.setWeight('node-b', 3);
+
+    expect(routes(snapshot)).toEqual(before);
+    expect(snapshot.nodes).toEqual(['node-a', 'node-b', 'node-c']);
+    expect(snapshot.size).toBe(3);
+    expect(snapshot.getWeight('node-b')).toBe(1);
+    expect(snapshot.getN('key:1', 3)).toHaveLength(3);
+    expect(snapshot.version).toBe(1);
+    expect(ring.version).toBe(4);
+  });
+
+  test('the same snapshot is returned until the ring changes', () => {
+    const first = ring.snapshot();
+    expect(ring.snapshot()).toBe(first);
+
+    ring.add('node-d');
+    const second = ring.snapshot();
+    expect(second).not.toBe(first);
+    expect(second.version).toBe(first.version + 1);
+    expect(routes(second)).toEqual(routes(ring));
+  });
+
+  test('snapshots are read-only', () => {
+    const snapshot = ring.snapshot() as HashOrbit;
+    const message = 'Ring snapshots are read-only; use with() or without() for a modified ring';
+
+    expect(() => snapshot.add('node-d')).toThrow(message);
+    expect(() => snapshot.remove('node-a')).toThrow(message);
+    expect(() => snapshot.setWeight('node-a', 2)).toThrow(message);
+    expect(() => snapshot.addAll(['node-d'])).toThrow(message);
+    expect(snapshot.snapshot()).toBe(snapshot);
+    expect(snapshot.nodes).toEqual(ring.nodes);
+  });
+
+  test('with() and without() leave the original untouched', () => {
+    const before = routes(ring);
+    const grown = ring.with('node-d', { weight: 2 });
+    const shrunk = ring.without('node-a');
+
+    expect(routes(ring)).toEqual(before);
+    expect(ring.nodes).toEqual(['node-a', 'node-b', 'node-c']);
+    expect(grown.nodes).toEqual(['node-a', 'node-b', 'node-c', 'node-d']);
+    expect(grown.getWeight('node-d')).toBe(2);
+    expect(shrunk.nodes).toEqual(['node-b', 'node-c']);
+    expect(grown.version).toBe(ring.version + 1);
+
+    const expected = new HashOrbit();
+    expected.addAll(['node-b', 'node-c']);
+    expect(routes(shrunk)).toEqual(routes(expected));
+  });
+
+  test('with() on a snapshot returns a mutable ring', () => {
+    const next = ring.snapshot().with('node-d');
+    next.add('node-e');
+    expect(next.size).toBe(5);
+    expect(HashOrbit.diff(ring, next).ranges.length).toBeGreaterThan(0);
+  });
+
+  test('copies keep the configuration', () => {
+    const ketama = new HashOrbit({ profile: 'ketama' });
+    ketama.addAll(['10.0.0.1:11211', '10.0.0.2:11211']);
+    const custom = new HashOrbit({ hash: (input) => fnv1a(input) ^ 1, replicas: 20 });
+    custom.addAll(['node-a', 'node-b']);
+
+    for (const original of [ketama, custom]) {
+      const snapshot = original.snapshot();
+      expect(snapshot.toJSON()).toEqual(original.toJSON());
+      expect(routes(snapshot)).toEqual(routes(original));
+    }
+  });
+
+  test('copying during a batch throws', () => {
+    ring.batch(() => {
+      expect(() => ring.snapshot()).toThrow('Cannot copy a ring during a batch');
+      expect(() => ring.with('node-d')).toThrow('Cannot copy a ring during a batch');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit } from '../src/index.js';
+
+describe('Keyspace stats', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    ring.addAll(['node-a', 'node-b', 'node-c', 'node-d']);
+  });
+
+  test('ownership covers the whole keyspace', () => {
+    const stats = ring.stats();
+    const total = stats.nodes.reduce((sum, node) => sum + node.ownership, 0);
+
+    expect(total).toBeCloseTo(1, 12);
+    expect(stats.positions).toBe(600);
+    expect(stats.nodes.map((node) => node.node)).toEqual(ring.nodes);
+    expect(stats.nodes.every((node) => node.virtualNodes === 150)).toBe(true);
+    expect(stats.mean).toBe(0.25);
+  });
+
+  test('ownership matches the keys each node receives', () => {
+    const counts = new Map<string, number>();
+    const samples = 20_000;
+    for (let i = 0; i < samples; i++) {
+      const node = ring.get(`key:${i}`)!;
+      counts.set(node, (counts.get(node) ?? 0) + 1);
+    }
+
+    for (const { node, ownership } of ring.stats().nodes) {
+      expect(Math.abs(counts.get(node)! / samples - ownership)).toBeLessThan(0.015);
+    }
+  });
+
+  test('balance figures agree with per-node ownership', () => {
+    const stats = ring.stats();
+    const shares = stats.nodes.map((node) => node.ownership);
+    const variance = shares.reduce((sum, share) => sum + (share - 0.25) ** 2, 0) / shares.length;
+
+    expect(stats.min).toBe(Math.min(...shares));
+    expect(stats.max).toBe(Math.max(...shares));
+    expect(stats.stddev).toBeCloseTo(Math.sqrt(variance), 12);
+    expect(stats.peakToMean).toBeCloseTo(stats.max / 0.25, 12);
+    expect(stats.weightedPeakToMean).toBeCloseTo(stats.peakToMean, 12);
+    expect(stats.peakToMean).toBeLessThan(1.25);
+  });
+
+  test('expected shares follow weights', () => {
+    ring.setWeight('node-a', 2);
+    const stats = ring.stats();
+    const nodeA = stats.nodes.find((node) => node.node === 'node-a')!;
+    const nodeB = stats.nodes.find((node) => node.node === 'node-b')!;
+
+    expect(nodeA).toMatchObject({ weight: 2, virtualNodes: 300, expected: 0.4 });
+    expect(nodeB).toMatchObject({ weight: 1, virtualNodes: 150, expected: 0.2 });
+    expect(nodeA.deviation).toBeCloseTo(nodeA.ownership / 0.4 - 1, 12);
+    expect(stats.maxDeviation).toBe(Math.max(...stats.nodes.map((n) => Math.abs(n.deviation))));
+    expect(stats.maxDeviation).toBeLessThan(0.25);
+    expect(stats.weightedPeakToMean).toBeLessThan(stats.peakToMean);
+  });
+
+  test('largest arcs are sorted, limited and owned by their end position', () => {
+    const { largestArcs } = ring.stats({ arcs: 5 });
+    expect(largestArcs).toHaveLength(5);
+
+    for (let i = 1; i < largestArcs.length; i++) {
+      expect(largestArcs[i]!.fraction).toBeLessThanOrEqual(largestArcs[i - 1]!.fraction);
+    }
+    for (const arc of largestArcs) {
+      const length =
+        arc.start <= arc.end ? arc.end - arc.start + 1 : 2 ** 32 - arc.start + arc.end + 1;
+      expect(length / 2 ** 32).toBeCloseTo(arc.fraction, 12);
+    }
+
+    expect(ring.stats().largestArcs).toHaveLength(10);
+    expect(ring.stats({ arcs: 0 }).largestArcs).toEqual([]);
+    expect(() => ring.stats({ arcs: -1 })).toThrow('Arcs must be a non-negative integer');
+  });
+
+  test('a single position owns the whole keyspace in one wrapping arc', () => {
+    const single = new HashOrbit({ replicas: 1 });
+    single.add('node-a');
+    const stats = single.stats();
+
+    expect(stats.nodes[0]).toMatchObject({ ownership: 1, expected: 1, deviation: 0 });
+    expect(stats.peakToMean).toBe(1);
+    expect(stats.largestArcs).toHaveLength(1);
+    const [arc] = stats.largestArcs;
+    expect(arc).toMatchObject({ node: 'node-a', fraction: 1, start: (arc!.end + 1) >>> 0 });
+  });
+
+  test('an empty ring reports no ownership', () => {
+    expect(new HashOrbit().stats()).toEqual({
+      nodes: [],
+      positions: 0,
+      min: 0,
+      max: 0,
+      mean: 0,
+      stddev: 0,
+      peakToMean: 0,
+      weightedPeakToMean: 0,
+      maxDeviation: 0,
+      largestArcs: [],
+    });
+  });
+
+  test('multi-probe rings are not supported', () => {
+    const probed = new HashOrbit({ probes: 5 });
+    probed.add('node-a');
+    expect(() => probed.stats()).toThrow('Cannot compute stats in multi-probe mode');
+  });
+});
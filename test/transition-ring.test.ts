@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit, TransitionRing } from '../src/index.js';
+import { copy } from './helpers.js';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `key:${i}`);
+
+describe('TransitionRing', () => {
+  let previous: HashOrbit;
+  let next: HashOrbit;
+  let transition: TransitionRing;
+
+  beforeEach(() => {
+    previous = new HashOrbit();
+    ['node-a', 'node-b', 'node-c'].forEach((node) => previous.add(node));
+    next = copy(previous);
+    next.add('node-d');
+    transition = new TransitionRing(previous, next);
+  });
+
+  test('get() returns the previous owner only for moved keys', () => {
+    let moved = 0;
+    for (const key of keys) {
+      const { current, previous: before } = transition.get(key);
+      expect(current).toBe(next.get(key));
+      if (previous.get(key) === next.get(key)) {
+        expect(before).toBeUndefined();
+      } else {
+        expect(before).toBe(previous.get(key));
+        moved++;
+      }
+    }
+    expect(moved).toBeGreaterThan(0);
+  });
+
+  test('getN() returns previous replicas whenever the replica sets differ', () => {
+    let replicaOnly = 0;
+    for (const key of keys.slice(0, 300)) {
+      const lookup = transition.getN(key, 2);
+      expect(lookup.current).toEqual(next.getN(key, 2));
+      const changed = previous.getN(key, 2).join() !== next.getN(key, 2).join();
+      expect(lookup.previous).toEqual(changed ? previous.getN(key, 2) : []);
+      if (changed && previous.get(key) === next.get(key)) replicaOnly++;
+    }
+    expect(replicaOnly).toBeGreaterThan(0);
+  });
+
+  test('keys whose lower replicas changed fall back until the transition is done', () => {
+    const key = keys.find(
+      (key) =>
+        previous.get(key) === next.get(key) &&
+        previous.getN(key, 2).join() !== next.getN(key, 2).join()
+    )!;
+    transition.ranges.slice(1).forEach((range) => transition.markComplete(range.index));
+    expect(transition.getN(key, 2).previous).toEqual(previous.getN(key, 2));
+
+    transition.markComplete(0);
+    expect(transition.getN(key, 2).previous).toEqual([]);
+  });
+
+  test('completed ranges stop read-through', () => {
+    const movedKey = keys.find((key) => previous.get(key) !== next.get(key))!;
+    const position = next.hashKey(movedKey);
+    const range = transition.ranges.find((r) => r.start <= position && position <= r.end)!;
+
+    transition.markComplete(range.index);
+
+    expect(transition.isComplete(range.index)).toBe(true);
+    expect(transition.get(movedKey).previous).toBeUndefined();
+    expect(transition.getN(movedKey, 2).previous).toEqual([]);
+    expect(transition.pendingRanges.map((r) => r.index)).not.toContain(range.index);
+  });
+
+  test('tracks progress until every range is complete', () => {
+    expect(transition.progress).toBe(0);
+    expect(transition.done).toBe(false);
+
+    const { ranges } = transition;
+    transition.markComplete(0);
+    expect(transition.progress).toBeGreaterThan(0);
+    expect(transition.progress).toBeLessThan(1);
+
+    ranges.forEach((range) => transition.markComplete(range.index));
+    expect(transition.progress).toBe(1);
+    expect(transition.done).toBe(true);
+    expect(transition.pendingRanges).toEqual([]);
+    for (const key of keys) {
+      expect(transition.get(key).previous).toBeUndefined();
+    }
+  });
+
+  test('marking a range twice is a no-op', () => {
+    transition.markComplete(0);
+    transition.markComplete(0);
+    expect(transition.toJSON().completed).toEqual([0]);
+  });
+
+  test('rejects unknown ranges', () => {
+    expect(() => transition.markComplete(-1)).toThrow('Range -1 does not exist');
+    expect(() => transition.markComplete(transition.ranges.length)).toThrow(
+      `Range ${transition.ranges.length} does not exist`
+    );
+  });
+
+  test('identical rings are already done', () => {
+    const idle = new TransitionRing(previous, copy(previous));
+    expect(idle.ranges).toEqual([]);
+    expect(idle.progress).toBe(1);
+    expect(idle.done).toBe(true);
+  });
+
+  test('ranges are copies', () => {
+    transition.ranges[0]!.complete = true;
+    expect(transition.isComplete(0)).toBe(false);
+  });
+
+  test('serializes both rings and progress', () => {
+    transition.markComplete(1);
+    transition.markComplete(3);
+    const json = JSON.parse(JSON.stringify(transition));
+    const restored = TransitionRing.fromJSON(json);
+
+    expect(json.completed).toEqual([1, 3]);
+    expect(restored.ranges).toEqual(transition.ranges);
+    expect(restored.previous.nodes).toEqual(previous.nodes);
+    expect(restored.next.nodes).toEqual(next.nodes);
+    for (const key of keys.slice(0, 300)) {
+      expect(restored.get(key)).toEqual(transition.get(key));
+    }
+  });
+
+  test('rejects rings with different hashes', () => {
+    const other = new HashOrbit({ hash: 'fnv1a' });
+    other.add('node-a');
+    expect(() => new TransitionRing(previous, other)).toThrow(
+      'Cannot diff rings with different hash functions'
+    );
+  });
+
+  test('toString() reports progress', () => {
+    expect(transition.toString()).toBe(
+      `TransitionRing(ranges=${transition.ranges.length}, completed=0, progress=0.000)`
+    );
+  });
+});
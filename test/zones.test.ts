@@ -0,0 +1,188 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { HashOrbit } from '../src/index.js';
+
+const keys = Array.from({ length: 500 }, (_, i) => `key:${i}`);
+
+const layout: Record<string, { zone: string; rack: string }> = {
+  'node-a': { zone: 'us-east-1a', rack: 'rack-1' },
+  'node-b': { zone: 'us-east-1a', rack: 'rack-1' },
+  'node-c': { zone: 'us-east-1a', rack: 'rack-2' },
+  'node-d': { zone: 'us-east-1b', rack: 'rack-1' },
+  'node-e': { zone: 'us-east-1b', rack: 'rack-2' },
+  'node-f': { zone: 'us-east-1c', rack: 'rack-1' },
+};
+
+function zoneOf(node: string): string {
+  return layout[node]!.zone;
+}
+
+describe('Zone-aware replica placement', () => {
+  let ring: HashOrbit;
+
+  beforeEach(() => {
+    ring = new HashOrbit();
+    for (const [node, location] of Object.entries(layout)) {
+      ring.add(node, location);
+    }
+  });
+
+  test('replicas spread over distinct zones before any zone repeats', () => {
+    for (const key of keys) {
+      const replicas = ring.getN(key, 3);
+      expect(new Set(replicas.map(zoneOf)).size).toBe(3);
+
+      const more = ring.getN(key, 5);
+      expect(more.slice(0, 3)).toEqual(replicas);
+      expect(new Set(more).size).toBe(5);
+    }
+  });
+
+  test('the first replica is the owner', () => {
+    for (const key of keys) {
+      expect(ring.getN(key, 1)).toEqual([ring.get(key)]);
+      expect(ring.getN(key, 3)[0]).toBe(ring.get(key));
+    }
+  });
+
+  test('asking for more replicas than nodes returns every node', () => {
+    expect(new Set(ring.getN('key:1', 10))).toEqual(new Set(Object.keys(layout)));
+  });
+
+  test('replicas after the zones run out follow ring order', () => {
+    const plain = new HashOrbit();
+    plain.addAll(Object.keys(layout));
+
+    for (const key of keys.slice(0, 100)) {
+      const replicas = ring.getN(key, 6);
+      const order = plain.getN(key, 6);
+      const repeats = replicas.slice(3);
+      expect(repeats).toEqual(order.filter((node) => repeats.includes(node)));
+    }
+  });
+
+  test('nodes without a zone count as zones of their own', () => {
+    const mixed = new HashOrbit();
+    mixed.add('node-a', { zone: 'us-east-1a' });
+    mixed.add('node-b', { zone: 'us-east-1a' });
+    mixed.add('node-x');
+    mixed.add('node-y');
+
+    for (const key of keys) {
+      const replicas = mixed.getN(key, 3);
+      expect(replicas.filter((node) => node === 'node-a' || node === 'node-b')).toHaveLength(1);
+      expect(replicas).toContain('node-x');
+      expect(replicas).toContain('node-y');
+    }
+  });
+
+  test('per-zone counts take replicas from each zone', () => {
+    for (const key of keys) {
+      const replicas = ring.getN(key, { 'us-east-1a': 2, 'us-east-1b': 1 });
+      expect(replicas.map(zoneOf).sort()).toEqual(['us-east-1a', 'us-east-1a', 'us-east-1b']);
+    }
+  });
+
+  test('per-zone replicas spread over distinct racks', () => {
+    for (const key of keys) {
+      const east = ring.getN(key, { 'us-east-1a': 2 });
+      expect(new Set(east.map((node) => layout[node]!.rack)).size).toBe(2);
+    }
+  });
+
+  test('per-zone counts are capped by the nodes in each zone', () => {
+    const replicas = ring.getN('key:1', { 'us-east-1c': 3, 'eu-west-1a': 2, 'us-east-1b': 0 });
+    expect(replicas).toEqual(['node-f']);
+    expect(ring.getN('key:1', {})).toEqual([]);
+    expect(new HashOrbit().getN('key:1', { 'us-east-1a': 1 })).toEqual([]);
+  });
+
+  test('invalid replica counts and locations are rejected', () => {
+    for (const count of [-1, 1.5, NaN]) {
+      expect(() => ring.getN('key:1', { 'us-east-1a': count })).toThrow(
+        'Replica counts must be non-negative integers'
+      );
+    }
+    expect(() => ring.add('node-z', { zone: '' })).toThrow('Zone cannot be empty');
+    expect(() => ring.addAll(['node-y', 'node-z'], { rack: '' })).toThrow('Rack cannot be empty');
+    expect(ring.has('node-z')).toBe(false);
+  });
+
+  test('getLocation() reports the zone and rack', () => {
+    ring.add('node-x');
+
+    expect(ring.getLocation('node-a')).toEqual({ zone: 'us-east-1a', rack: 'rack-1' });
+    expect(ring.getLocation('node-x')).toEqual({});
+    expect(ring.getLocation('node-z')).toBeUndefined();
+  });
+
+  test('moving a node to another zone is a new version that moves no keys', () => {
+    const before = keys.map((key) => ring.get(key));
+    const { version } = ring;
+    ring.add('node-f', { zone: 'us-east-1b' });
+
+    expect(ring.version).toBe(version + 1);
+    expect(ring.getLocation('node-f')).toEqual({ zone: 'us-east-1b', rack: 'rack-1' });
+    expect(keys.map((key) => ring.get(key))).toEqual(before);
+    for (const key of keys) {
+      expect(new Set(ring.getN(key, 2).map((node) => ring.getLocation(node)!.zone)).size).toBe(2);
+    }
+
+    ring.add('node-f', { weight: 2 });
+    expect(ring.getLocation('node-f')).toEqual({ zone: 'us-east-1b', rack: 'rack-1' });
+  });
+
+  test('removed nodes lose their location', () => {
+    ring.remove('node-a');
+    expect(ring.getLocation('node-a')).toBeUndefined();
+    ring.add('node-a');
+    expect(ring.getLocation('node-a')).toEqual({});
+  });
+
+  test('snapshots and copies keep locations', () => {
+    const snapshot = ring.snapshot();
+    const grown = ring.with('node-g', { zone: 'us-east-1c' });
+    ring.add('node-a', { zone: 'us-east-1c' });
+
+    expect(snapshot.getLocation('node-a')).toEqual({ zone: 'us-east-1a', rack: 'rack-1' });
+    expect(grown.getLocation('node-a')).toEqual({ zone: 'us-east-1a', rack: 'rack-1' });
+    expect(grown.getLocation('node-g')).toEqual({ zone: 'us-east-1c' });
+    expect(snapshot.getN('key:1', 3).map(zoneOf).sort()).toEqual([
+      'us-east-1a',
+      'us-east-1b',
+      'us-east-1c',
+    ]);
+  });
+
+  test('toJSON() and fromJSON() preserve locations', () => {
+    ring.add('node-x');
+    const json = JSON.parse(JSON.stringify(ring.toJSON()));
+    expect(json.zones['node-a']).toBe('us-east-1a');
+    expect(json.racks['node-e']).toBe('rack-2');
+    expect(json.zones).not.toHaveProperty('node-x');
+
+    const restored = HashOrbit.fromJSON(json);
+    for (const key of keys) {
+      expect(restored.getN(key, 3)).toEqual(ring.getN(key, 3));
+    }
+
+    const plain = new HashOrbit();
+    plain.add('node-a');
+    expect(plain.toJSON()).not.toHaveProperty('zones');
+  });
+
+  test('the operation log replays locations', () => {
+    const logged = new HashOrbit({ operationLog: true });
+    logged.add('node-a', { zone: 'us-east-1a', rack: 'rack-1' });
+    logged.add('node-b');
+    logged.add('node-b', { zone: 'us-east-1b' });
+
+    const { operations } = logged.getLog();
+    expect(operations[0]).toMatchObject({ zone: 'us-east-1a', rack: 'rack-1' });
+    expect(operations[1]).not.toHaveProperty('zone');
+    expect(operations[2]).toMatchObject({ type: 'add', node: 'node-b', zone: 'us-east-1b' });
+
+    const replayed = HashOrbit.replay(logged.getLog());
+    expect(replayed.getLocation('node-b')).toEqual({ zone: 'us-east-1b' });
+    expect(replayed.version).toBe(logged.version);
+  });
+});